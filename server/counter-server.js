@@ -0,0 +1,426 @@
+/**
+ * Self-hosted Counter Server
+ *
+ * A tiny dependency-free Node server that stores the simulator's counters in a
+ * JSON file. Meant for events on offline school LANs where counterapi.dev is
+ * not reachable. It can also host the built app (`npm run build`) so a single
+ * laptop serves both.
+ *
+ * Usage:
+ *   node server/counter-server.js
+ *
+ * Environment:
+ *   PORT               Port to listen on (default 8787)
+ *   STATS_DATA_FILE    Where counters are persisted (default ./stats-data.json)
+ *   STATS_AUDIT_FILE   JSON-lines audit log (default ./stats-audit.log)
+ *   STATS_ADMIN_TOKEN  Enables the admin API, sent as `Authorization: Bearer <token>`
+ *   STATS_COUNTER_RATE Increments one counter accepts per minute (default 60)
+ *   STATS_PLAY_RATE    Plays one address may start per minute (default 120)
+ *   STATIC_DIR         Built app to serve on `/` (default ./dist, skipped if missing)
+ *
+ * API (all JSON):
+ *   POST /api/plays               -> { play, token }   a new play id, issued by the server (429 when the
+ *                                 address started too many plays this minute)
+ *   GET  /api/counters?keys=a,b   -> { counts: { a: 1, b: 0 } }
+ *   POST /api/counters            { keys: [a, b] } -> { counts: { a: 1, b: 0 } }   for long key lists
+ *   GET  /api/counters?prefix=p   -> { counts: { ...every counter starting with p } }
+ *   GET  /api/counters/:key       -> { key, count }   (404 if unknown)
+ *   POST /api/counters/:key/up    headers X-Play-Id / X-Play-Token -> { key, count }
+ *   POST /api/increments          { play, token, increments: [{ id, key }] } -> { counts: { [id]: count }, rejected }
+ *                                 Ids already applied are skipped, so client retries never double count.
+ *                                 403 without a valid play token. 429 when a rate limit held some
+ *                                 increments back; those are not recorded and should be retried later.
+ *   GET  /api/events?keys=a,b     -> Server-Sent Events, one `{ key, count }` message per change
+ *
+ * Increments need a play token and count at most once per play and counter;
+ * each counter only rises so fast (see `guard.js`). Addresses that keep sending
+ * invalid requests get 429 for a minute. Admin API (needs STATS_ADMIN_TOKEN):
+ *   PUT    /api/admin/counters/:key  { count, reason } -> sets a counter (0 = reset)
+ *   DELETE /api/admin/counters/:key  { reason }        -> removes a counter
+ */
+import { createServer } from 'node:http'
+import { readFileSync, writeFileSync, existsSync, statSync, createReadStream, renameSync } from 'node:fs'
+import { resolve, join, extname, normalize, relative, isAbsolute } from 'node:path'
+import { createGuard } from './guard.js'
+
+const PORT = Number(process.env.PORT) || 8787
+const DATA_FILE = resolve(process.env.STATS_DATA_FILE || 'stats-data.json')
+const AUDIT_FILE = resolve(process.env.STATS_AUDIT_FILE || 'stats-audit.log')
+const STATIC_DIR = resolve(process.env.STATIC_DIR || 'dist')
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+const MIME_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.mp3': 'audio/mpeg',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.json': 'application/json',
+}
+
+// --- Storage ---
+
+/** Applied increment ids are remembered this long to recognise retries */
+const SEEN_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const MAX_BODY_BYTES = 100 * 1024
+
+/** @type {Record<string, number>} */
+let counters = {}
+/** Increment id -> time it was applied @type {Record<string, number>} */
+let seen = {}
+/** Token secret and one-shot claims, owned by the guard */
+let guardState = {}
+
+if (existsSync(DATA_FILE)) {
+    try {
+        const data = JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+        counters = data.counters || {}
+        seen = data.seen || {}
+        guardState = data.guard || {}
+    } catch (e) {
+        console.error(`Could not read ${DATA_FILE}, starting empty`, e)
+    }
+}
+
+const guard = createGuard(guardState, AUDIT_FILE)
+
+let saveTimer = null
+
+/**
+ * Persists counters shortly after a change.
+ * Writes go to a temp file first so a crash never leaves half a JSON file.
+ */
+function scheduleSave() {
+    if (saveTimer) return
+    saveTimer = setTimeout(() => {
+        saveTimer = null
+        const cutoff = Date.now() - SEEN_TTL_MS
+        for (const id of Object.keys(seen)) {
+            if (seen[id] < cutoff) delete seen[id]
+        }
+        guard.prune()
+        const tmp = `${DATA_FILE}.tmp`
+        writeFileSync(tmp, JSON.stringify({ counters, seen, guard: guardState }, null, 2))
+        renameSync(tmp, DATA_FILE)
+    }, 200)
+}
+
+/**
+ * Adds one to a counter and notifies live subscribers.
+ */
+function increment(key) {
+    counters[key] = (counters[key] ?? 0) + 1
+    scheduleSave()
+    broadcast(key)
+    return counters[key]
+}
+
+// --- Live updates (Server-Sent Events) ---
+
+/** @type {Set<{ res: import('node:http').ServerResponse, keys: Set<string> }>} */
+const subscribers = new Set()
+
+function broadcast(key) {
+    const message = `data: ${JSON.stringify({ key, count: counters[key] })}\n\n`
+    for (const subscriber of subscribers) {
+        if (subscriber.keys.has(key)) subscriber.res.write(message)
+    }
+}
+
+// Comment lines keep idle connections open through proxies and phone hotspots
+setInterval(() => {
+    for (const subscriber of subscribers) subscriber.res.write(': ping\n\n')
+}, 25000).unref()
+
+// --- HTTP helpers ---
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Play-Id, X-Play-Token',
+}
+
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS })
+    res.end(JSON.stringify(body))
+}
+
+/**
+ * Reads a JSON request body, rejecting anything larger than MAX_BODY_BYTES.
+ */
+function readJsonBody(req) {
+    return new Promise((resolvePromise, reject) => {
+        let size = 0
+        const chunks = []
+        req.on('data', chunk => {
+            size += chunk.length
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error('Body too large'))
+                req.destroy()
+                return
+            }
+            chunks.push(chunk)
+        })
+        req.on('end', () => {
+            try {
+                resolvePromise(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'))
+            } catch (e) {
+                reject(e)
+            }
+        })
+        req.on('error', reject)
+    })
+}
+
+/**
+ * Serves a file from the built app, falling back to index.html for unknown paths.
+ */
+function serveStatic(pathname, res) {
+    if (!existsSync(STATIC_DIR)) {
+        sendJson(res, 404, { error: 'Not found' })
+        return
+    }
+
+    let decoded
+    try {
+        decoded = decodeURIComponent(pathname)
+    } catch {
+        // Malformed percent-encoding, e.g. `/%E0%A4%A`
+        sendJson(res, 400, { error: 'Invalid path' })
+        return
+    }
+
+    let file = normalize(join(STATIC_DIR, decoded))
+    // Inside STATIC_DIR only: a plain prefix check would let `<STATIC_DIR>-old/...` through
+    const inside = relative(STATIC_DIR, file)
+    if (inside.startsWith('..') || isAbsolute(inside) || !existsSync(file) || statSync(file).isDirectory()) {
+        file = join(STATIC_DIR, 'index.html')
+    }
+
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] || 'application/octet-stream' })
+    createReadStream(file).pipe(res)
+}
+
+// --- Routes ---
+
+function handleApi(req, url, res) {
+    const ip = req.socket.remoteAddress || 'unknown'
+    const parts = url.pathname.split('/').filter(Boolean).slice(1) // drop "api"
+
+    // GET /api/events?keys=a,b
+    if (parts[0] === 'events' && req.method === 'GET') {
+        const keys = (url.searchParams.get('keys') || '').split(',').filter(k => KEY_PATTERN.test(k))
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            ...CORS_HEADERS,
+        })
+        res.write(': connected\n\n')
+
+        const subscriber = { res, keys: new Set(keys) }
+        subscribers.add(subscriber)
+        req.on('close', () => subscribers.delete(subscriber))
+        return
+    }
+
+    // POST /api/plays
+    if (parts[0] === 'plays' && req.method === 'POST') {
+        const play = guard.issuePlay(ip)
+        if (play) sendJson(res, 200, play)
+        else sendJson(res, 429, { error: 'Too many plays from this address, try again later' })
+        return
+    }
+
+    const incrementing = parts[0] === 'increments' || (parts[0] === 'counters' && parts[2] === 'up')
+    if (incrementing && req.method === 'POST' && guard.isBlocked(ip)) {
+        sendJson(res, 429, { error: 'Too many rejected requests from this address, try again later' })
+        return
+    }
+
+    // POST /api/increments
+    if (parts[0] === 'increments' && req.method === 'POST') {
+        readJsonBody(req)
+            .then(body => {
+                // Checked before anything is recorded, so requests without a token leave no trace but one log line
+                if (!guard.verify(body.play, body.token)) {
+                    guard.reject(ip, { reason: 'invalid-token', play: body.play })
+                    sendJson(res, 403, { error: 'invalid-token' })
+                    return
+                }
+                const increments = Array.isArray(body.increments) ? body.increments : []
+                const counts = {}
+                const rejected = {}
+                const retry = []
+                for (const { id, key } of increments) {
+                    if (typeof id !== 'string' || !KEY_PATTERN.test(id) || !KEY_PATTERN.test(key)) continue
+                    if (seen[id]) {
+                        counts[id] = counters[key] ?? 0
+                        continue
+                    }
+                    const reason = guard.claim(body.play, key)
+                    // Held back by a rate limit: not seen, so the client's retry is counted later
+                    if (reason && guard.isRetryable(reason)) {
+                        retry.push(id)
+                        continue
+                    }
+                    // Other rejections are final, marking them seen stops clients from retrying them
+                    seen[id] = Date.now()
+                    if (reason) {
+                        rejected[id] = reason
+                        guard.reject(ip, { reason, play: body.play, key })
+                        continue
+                    }
+                    counts[id] = increment(key)
+                    guard.log({ type: 'increment', ip, play: body.play, key, count: counts[id] })
+                }
+                sendJson(res, retry.length > 0 ? 429 : 200, { counts, rejected, retry })
+            })
+            .catch(() => sendJson(res, 400, { error: 'Invalid body' }))
+        return
+    }
+
+    // /api/admin/counters/:key
+    if (parts[0] === 'admin') {
+        handleAdmin(req, parts, ip, res)
+        return
+    }
+
+    if (parts[0] !== 'counters') {
+        sendJson(res, 404, { error: 'Not found' })
+        return
+    }
+
+    // GET /api/counters?prefix=cohort-
+    if (parts.length === 1 && req.method === 'GET' && url.searchParams.has('prefix')) {
+        const prefix = url.searchParams.get('prefix') || ''
+        sendJson(res, 200, { counts: Object.fromEntries(Object.entries(counters).filter(([k]) => k.startsWith(prefix))) })
+        return
+    }
+
+    // POST /api/counters { keys }
+    if (parts.length === 1 && req.method === 'POST') {
+        readJsonBody(req)
+            .then(body => {
+                const keys = (Array.isArray(body.keys) ? body.keys : []).filter(k => typeof k === 'string' && KEY_PATTERN.test(k))
+                sendJson(res, 200, { counts: Object.fromEntries(keys.map(k => [k, counters[k] ?? 0])) })
+            })
+            .catch(() => sendJson(res, 400, { error: 'Invalid body' }))
+        return
+    }
+
+    // GET /api/counters?keys=a,b
+    if (parts.length === 1 && req.method === 'GET') {
+        const keys = (url.searchParams.get('keys') || '').split(',').filter(k => KEY_PATTERN.test(k))
+        sendJson(res, 200, { counts: Object.fromEntries(keys.map(k => [k, counters[k] ?? 0])) })
+        return
+    }
+
+    const key = parts[1]
+    if (!key || !KEY_PATTERN.test(key)) {
+        sendJson(res, 400, { error: 'Invalid counter key' })
+        return
+    }
+
+    // POST /api/counters/:key/up
+    if (parts[2] === 'up' && req.method === 'POST') {
+        const play = req.headers['x-play-id']
+        const reason = guard.verify(play, req.headers['x-play-token']) ? guard.claim(play, key) : 'invalid-token'
+        if (reason && guard.isRetryable(reason)) {
+            sendJson(res, 429, { error: reason })
+            return
+        }
+        if (reason) {
+            guard.reject(ip, { reason, play, key })
+            sendJson(res, 403, { error: reason })
+            return
+        }
+        const count = increment(key)
+        guard.log({ type: 'increment', ip, play, key, count })
+        sendJson(res, 200, { key, count })
+        return
+    }
+
+    // GET /api/counters/:key
+    if (parts.length === 2 && req.method === 'GET') {
+        if (counters[key] === undefined) {
+            sendJson(res, 404, { error: 'Unknown counter' })
+            return
+        }
+        sendJson(res, 200, { key, count: counters[key] })
+        return
+    }
+
+    sendJson(res, 405, { error: 'Method not allowed' })
+}
+
+/**
+ * Manual corrections. Every change is written to the audit log with its reason.
+ */
+function handleAdmin(req, parts, ip, res) {
+    if (!guard.isAdmin(req)) {
+        guard.log({ type: 'rejected', reason: 'admin-auth', ip, path: parts.join('/') })
+        sendJson(res, 401, { error: 'Admin token required' })
+        return
+    }
+
+    const key = parts[2]
+    if (parts[1] !== 'counters' || !key || !KEY_PATTERN.test(key)) {
+        sendJson(res, 404, { error: 'Not found' })
+        return
+    }
+
+    readJsonBody(req)
+        .then(body => {
+            const previous = counters[key] ?? null
+
+            if (req.method === 'PUT') {
+                const count = Number(body.count)
+                if (!Number.isInteger(count) || count < 0) {
+                    sendJson(res, 400, { error: 'count must be a non-negative integer' })
+                    return
+                }
+                counters[key] = count
+            } else if (req.method === 'DELETE') {
+                delete counters[key]
+            } else {
+                sendJson(res, 405, { error: 'Method not allowed' })
+                return
+            }
+
+            scheduleSave()
+            if (key in counters) broadcast(key)
+            guard.log({ type: 'admin', method: req.method, ip, key, previous, count: counters[key] ?? null, reason: body.reason || '' })
+            sendJson(res, 200, { key, previous, count: counters[key] ?? null })
+        })
+        .catch(() => sendJson(res, 400, { error: 'Invalid body' }))
+}
+
+const server = createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS)
+        res.end()
+        return
+    }
+
+    if (url.pathname.startsWith('/api/')) {
+        handleApi(req, url, res)
+        return
+    }
+
+    serveStatic(url.pathname, res)
+})
+
+server.listen(PORT, () => {
+    console.log(`Counter server listening on http://0.0.0.0:${PORT}`)
+    console.log(`  data file: ${DATA_FILE}`)
+    console.log(`  audit log: ${AUDIT_FILE}`)
+    if (!process.env.STATS_ADMIN_TOKEN) console.log('  admin API disabled (set STATS_ADMIN_TOKEN to enable)')
+    if (existsSync(STATIC_DIR)) console.log(`  serving app from: ${STATIC_DIR}`)
+})
@@ -0,0 +1,164 @@
+/**
+ * Tamper protection for the counter server.
+ *
+ * - Plays: every page load ("play") gets a random play id from the server,
+ *   with an HMAC token for it. Increments must present both, so clients cannot
+ *   pick or reuse play ids of their own. Each address can only start so many
+ *   plays a minute, so a script cannot mint plays without end.
+ * - One-shot: a play can bump each counter at most once.
+ * - Rate limits: each counter can only rise so fast, whoever raises it, so a
+ *   script minting plays gains little and a classroom behind one NAT address
+ *   is not throttled. Increments are also limited per play. Rate limits are
+ *   not final: the increment is refused for now and the client retries it
+ *   later, so a busy room (or a script filling a counter's limit) only delays
+ *   real increments. Addresses that keep sending invalid requests are turned
+ *   away for a while.
+ * - Audit log: accepted and rejected increments plus admin actions are
+ *   appended to a JSON-lines file.
+ */
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import { createWriteStream } from 'node:fs'
+
+/** Increments one counter accepts per minute, from all plays together */
+const COUNTER_RATE_PER_MINUTE = Number(process.env.STATS_COUNTER_RATE) || 60
+/** Plays one IP may start per minute; generous, a whole classroom shares one address */
+const PLAYS_PER_IP = Number(process.env.STATS_PLAY_RATE) || 120
+/** Rejections an IP may cause per minute before its requests are refused unread */
+const REJECTIONS_PER_IP = 30
+/** Increments allowed per play within a minute */
+const INCREMENTS_PER_MINUTE = 120
+/** Distinct counters a single play may touch */
+const MAX_KEYS_PER_PLAY = 300
+/** Claims are remembered this long, matching the retry window of clients */
+const CLAIM_TTL_MS = 7 * 24 * 60 * 60 * 1000
+/** Rejections the client should retry later rather than give up */
+const RETRYABLE = new Set(['counter-rate-limit', 'play-rate-limit'])
+
+/**
+ * Creates the guard.
+ * `state.secret` and `state.claims` are persisted by the caller with the counters.
+ */
+export function createGuard(state, auditFile) {
+    if (!state.secret) state.secret = randomBytes(32).toString('hex')
+    if (!state.claims) state.claims = {}
+
+    const audit = createWriteStream(auditFile, { flags: 'a' })
+    /** key -> timestamps of accepted increments within the last minute */
+    const counterUsage = new Map()
+    /** ip -> timestamps of rejections within the last minute */
+    const rejections = new Map()
+    /** ip -> timestamps of plays issued within the last minute */
+    const playsIssued = new Map()
+    /** playId -> { windowStart, count, keys } */
+    const playUsage = new Map()
+
+    /** Timestamps of `map.get(id)` within the last minute */
+    const recent = (map, id, now) => (map.get(id) || []).filter(t => now - t < 60_000)
+
+    const sign = (playId) => createHmac('sha256', state.secret).update(playId).digest('hex')
+
+    const safeEqual = (a, b) => {
+        const bufA = Buffer.from(String(a))
+        const bufB = Buffer.from(String(b))
+        return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+    }
+
+    return {
+        /** Appends one event to the audit log */
+        log(event) {
+            audit.write(JSON.stringify({ ts: new Date().toISOString(), ...event }) + '\n')
+        },
+
+        /** Starts a play: a fresh random play id and its token, or null when the IP started too many lately */
+        issuePlay(ip) {
+            const now = Date.now()
+            const times = recent(playsIssued, ip, now)
+            if (times.length >= PLAYS_PER_IP) return null
+            times.push(now)
+            playsIssued.set(ip, times)
+            const play = randomUUID().replace(/-/g, '')
+            return { play, token: sign(play) }
+        },
+
+        /** Whether the token belongs to the play id (and so the server issued both) */
+        verify(playId, token) {
+            return typeof playId === 'string' && typeof token === 'string' && safeEqual(sign(playId), token)
+        },
+
+        /** Whether an IP sent too many rejected requests lately; its requests are refused unread */
+        isBlocked(ip) {
+            return recent(rejections, ip, Date.now()).length >= REJECTIONS_PER_IP
+        },
+
+        /**
+         * Counts a rejection against the IP and audit-logs it. Once the IP is
+         * blocked nothing more is logged, so the audit file cannot be flooded.
+         */
+        reject(ip, event) {
+            const now = Date.now()
+            const times = recent(rejections, ip, now)
+            if (times.length >= REJECTIONS_PER_IP) return
+            times.push(now)
+            rejections.set(ip, times)
+            this.log({ type: 'rejected', ip, ...event })
+        },
+
+        /** Whether a `claim` rejection only means "not now": nothing is recorded and the client retries */
+        isRetryable(reason) {
+            return RETRYABLE.has(reason)
+        },
+
+        /**
+         * Checks whether a verified play may bump `key` and records the claim if so.
+         * Returns null when allowed, otherwise the rejection reason (see `isRetryable`).
+         */
+        claim(playId, key) {
+            const claimKey = `${playId}:${key}`
+            if (state.claims[claimKey]) return 'already-counted'
+
+            const now = Date.now()
+            const counterTimes = recent(counterUsage, key, now)
+            if (counterTimes.length >= COUNTER_RATE_PER_MINUTE) return 'counter-rate-limit'
+
+            let usage = playUsage.get(playId)
+            if (!usage || now - usage.windowStart > 60_000) {
+                usage = { windowStart: now, count: 0, keys: usage?.keys ?? 0 }
+                playUsage.set(playId, usage)
+            }
+            if (usage.count >= INCREMENTS_PER_MINUTE) return 'play-rate-limit'
+            if (usage.keys >= MAX_KEYS_PER_PLAY) return 'too-many-counters'
+
+            usage.count++
+            usage.keys++
+            counterTimes.push(now)
+            counterUsage.set(key, counterTimes)
+            state.claims[claimKey] = now
+            return null
+        },
+
+        /** Drops expired claims and idle rate-limit entries, called before the state is saved */
+        prune() {
+            const now = Date.now()
+            const cutoff = now - CLAIM_TTL_MS
+            for (const claimKey of Object.keys(state.claims)) {
+                if (state.claims[claimKey] < cutoff) delete state.claims[claimKey]
+            }
+            for (const map of [counterUsage, rejections, playsIssued]) {
+                for (const id of map.keys()) {
+                    if (recent(map, id, now).length === 0) map.delete(id)
+                }
+            }
+            for (const [playId, usage] of playUsage) {
+                if (now - usage.windowStart > CLAIM_TTL_MS) playUsage.delete(playId)
+            }
+        },
+
+        /** Whether a request carries the admin token (admin API is off without STATS_ADMIN_TOKEN) */
+        isAdmin(req) {
+            const adminToken = process.env.STATS_ADMIN_TOKEN
+            if (!adminToken) return false
+            const header = req.headers.authorization || ''
+            return safeEqual(header, `Bearer ${adminToken}`)
+        },
+    }
+}
@@ -7,30 +7,51 @@ import { BackgroundSanta } from './components/BackgroundSanta'
 import { SantaSleigh } from './components/SantaSleigh'
 import { SplashScreen } from './components/SplashScreen'
 import { EndingScene } from './components/EndingScene'
+import { EscapeHatch } from './components/EscapeHatch'
+import { Aftercare } from './components/Aftercare'
+import { Assessment } from './components/Assessment'
 import { useScamStats } from './hooks/useScamStats'
+import { trackStage, trackOutcome, currentCohort } from './stats'
+import { createSound, stopAllSounds } from './audio'
+import { audienceVolume } from './audience'
+import { useAudience } from './hooks/useAudience'
+import { isBaselineDue, recordBaseline } from './assessment'
+import { markGiftOffered, markGiftOpened, markGiftShaken } from './session'
+import type { ScamTactic } from './content/tactics'
+
+const BG_MUSIC_VOLUME = 0.4
 
 /**
  * Main Application Component
  * 
  * Orchestrates the entire user experience including:
+ * 0. Knowledge check baseline (only with `?assess`, see `src/assessment`)
  * 1. Splash Screen (Initial engagement)
  * 2. 3D Scene (Main interaction)
  * 3. Ending Scene (Educational reveal)
+ *
+ * The escape hatch ("This is a simulation") is on screen throughout. It silences
+ * everything, stops the splash / ending timelines and the 3D render loop, and
+ * shows the aftercare screen, from which the participant can continue or exit.
  * 
  * Uses @react-three/fiber for 3D rendering.
  */
 function App() {
     // --- State Management ---
-    const { visits, victims, incrementVisit, incrementVictim } = useScamStats()
+    const { visitors, victims, plays, incrementVisit, incrementVictim } = useScamStats()
     const bgMusicRef = useRef<HTMLAudioElement | null>(null)
+    const { profile } = useAudience()
 
     // UI Flow States
+    const [baselineDue, setBaselineDue] = useState(isBaselineDue)
     const [showSplash, setShowSplash] = useState(true)
     const [musicStarted, setMusicStarted] = useState(false)
     const [deliveryStarted, setDeliveryStarted] = useState(false)
     const [boxDropped, setBoxDropped] = useState(false)
     const [extraGifts, setExtraGifts] = useState(false)
     const [isMobile, setIsMobile] = useState(false)
+    // Tactic on screen when the escape hatch was used; set while the aftercare screen is open
+    const [aftercareTactic, setAftercareTactic] = useState<ScamTactic | null>(null)
 
     // --- Effects ---
 
@@ -79,13 +100,17 @@ function App() {
      * Initializes background music and tracks the initial visit.
      */
     useEffect(() => {
-        bgMusicRef.current = new Audio('/bg.mp3')
+        bgMusicRef.current = createSound('/bg.mp3')
         bgMusicRef.current.loop = true
-        bgMusicRef.current.volume = 0.4
 
         incrementVisit()
     }, [])
 
+    // The audience is picked on the splash, after the music was created
+    useEffect(() => {
+        if (bgMusicRef.current) bgMusicRef.current.volume = audienceVolume(BG_MUSIC_VOLUME)
+    }, [profile])
+
     /**
      * Attempts to start music and delivery sequence after splash screen.
      * Handles browser autoplay policies.
@@ -129,16 +154,57 @@ function App() {
         }
     }, [showSplash, musicStarted])
 
+    /**
+     * Escape hatch: stops every sound at once. Unmounting the splash / ending
+     * below stops their timelines, `frameloop="never"` pauses the 3D scene.
+     */
+    const escapeSimulation = (tactic: ScamTactic) => {
+        stopAllSounds()
+        trackOutcome(showSplash ? 'escaped_splash' : 'escaped_scene')
+        setAftercareTactic(tactic)
+    }
+
+    /**
+     * Leaves the aftercare screen for the gift scene; the rest of the splash is skipped.
+     */
+    const continueAfterEscape = () => {
+        trackOutcome('aftercare_continued')
+        setAftercareTactic(null)
+        if (showSplash) {
+            setShowSplash(false)
+        } else if (musicStarted) {
+            bgMusicRef.current?.play().catch(() => { })
+        }
+    }
+
+    const exitAfterEscape = () => {
+        trackOutcome('aftercare_exited')
+        // The stats queue is persisted, so the increment survives leaving the page
+        window.location.replace('about:blank')
+    }
+
     return (
         <>
+            {/* 0. Optional knowledge check before anything else */}
+            {baselineDue && (
+                <Assessment
+                    phase="pre"
+                    onDone={correct => {
+                        recordBaseline(correct)
+                        setBaselineDue(false)
+                    }}
+                />
+            )}
+
             {/* 1. Splash Screen Phase */}
-            {showSplash && (
-                <SplashScreen onComplete={() => setShowSplash(false)} />
+            {showSplash && !baselineDue && !aftercareTactic && (
+                <SplashScreen onComplete={() => setShowSplash(false)} onEscape={escapeSimulation} />
             )}
 
             {/* 2. Main 3D Experience Phase */}
             <Canvas
                 shadows
+                frameloop={aftercareTactic ? 'never' : 'always'}
                 camera={{ position: [0, 2, isMobile ? 13.5 : 8], fov: 45 }}
                 style={{
                     width: '100vw',
@@ -182,7 +248,11 @@ function App() {
                     {/* Delivery Sequence: Sleigh flying in */}
                     <SantaSleigh
                         start={deliveryStarted}
-                        onDrop={() => setBoxDropped(true)}
+                        onDrop={() => {
+                            setBoxDropped(true)
+                            markGiftOffered()
+                            trackStage('sleigh_drop')
+                        }}
                     />
 
                     {/* The Main Gift Box: The "Trap" */}
@@ -191,7 +261,9 @@ function App() {
                         isMain={true}
                         onOpen={() => {
                             setExtraGifts(true)
+                            markGiftOpened()
                             incrementVictim()
+                            trackStage('gift_open')
                         }}
                     />
 
@@ -206,6 +278,10 @@ function App() {
                                 scale={gift.scale}
                                 variant="shake"
                                 soundUrl={gift.sound}
+                                onShake={() => {
+                                    markGiftShaken(i)
+                                    trackStage('extra_gift_shaken')
+                                }}
                             />
                         </Float>
                     ))}
@@ -220,12 +296,13 @@ function App() {
             </Canvas>
 
             {/* UI Overlays */}
-            {!showSplash && <Overlay visits={visits} victims={victims} />}
+            {!showSplash && <Overlay visitors={visitors} victims={victims} plays={plays} cohortLabel={currentCohort?.label} />}
 
             {/* 3. Ending Scene Phase: The Educational Reveal */}
-            {extraGifts && (
+            {extraGifts && !aftercareTactic && (
                 <EndingScene
                     onRestart={() => window.location.reload()}
+                    extraGiftCount={giftsConfig.length}
                     onStopBgMusic={() => {
                         if (bgMusicRef.current) {
                             bgMusicRef.current.pause()
@@ -234,6 +311,12 @@ function App() {
                     }}
                 />
             )}
+
+            {/* Escape hatch: the splash renders its own while it runs */}
+            {!showSplash && !aftercareTactic && <EscapeHatch onEscape={() => escapeSimulation('freeGift')} />}
+            {aftercareTactic && (
+                <Aftercare tactic={aftercareTactic} onContinue={continueAfterEscape} onExit={exitAfterEscape} />
+            )}
         </>
     )
 }
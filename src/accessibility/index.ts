@@ -0,0 +1,7 @@
+export {
+    getSafeMode,
+    setSafeModePreference,
+    subscribeSafeMode,
+    type SafeModePreference,
+    type SafeModeSettings,
+} from './safeMode';
@@ -0,0 +1,79 @@
+/**
+ * Photosensitivity-safe mode, shared by every component.
+ *
+ * Follows the system's "reduce motion" setting unless the viewer (or the link,
+ * `?safe=1` / `?safe=0`) overrides it. While it is on, the glitch and panic
+ * scenes use slow, non-flashing versions of their effects, and the `safe-mode`
+ * class on <html> tones down CSS-only effects such as `.glitch-text`.
+ */
+
+/** `auto` follows `prefers-reduced-motion` */
+export type SafeModePreference = 'auto' | 'on' | 'off';
+
+export interface SafeModeSettings {
+    preference: SafeModePreference;
+    /** Whether the safe versions of the effects are in use */
+    enabled: boolean;
+}
+
+const STORAGE_KEY = 'scam-sim-safe-mode';
+const REDUCED_MOTION = window.matchMedia('(prefers-reduced-motion: reduce)');
+
+const isPreference = (value: unknown): value is SafeModePreference =>
+    value === 'auto' || value === 'on' || value === 'off';
+
+function readPreference(): SafeModePreference {
+    const fromLink = new URLSearchParams(window.location.search).get('safe');
+    if (fromLink === '1') return 'on';
+    if (fromLink === '0') return 'off';
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (isPreference(stored)) return stored;
+    } catch {
+        // Private mode: use the default
+    }
+    return 'auto';
+}
+
+const resolve = (preference: SafeModePreference): SafeModeSettings => ({
+    preference,
+    enabled: preference === 'auto' ? REDUCED_MOTION.matches : preference === 'on',
+});
+
+let settings = resolve(readPreference());
+const listeners = new Set<() => void>();
+
+const applyDocumentClass = () => {
+    document.documentElement.classList.toggle('safe-mode', settings.enabled);
+};
+applyDocumentClass();
+
+const update = (next: SafeModeSettings) => {
+    settings = next;
+    applyDocumentClass();
+    listeners.forEach(listener => listener());
+};
+
+// The system setting can change while the page is open
+REDUCED_MOTION.addEventListener('change', () => update(resolve(settings.preference)));
+
+/** Current settings; the object only changes when a setting does */
+export const getSafeMode = () => settings;
+
+/** Overrides (or, with `auto`, stops overriding) the system setting */
+export function setSafeModePreference(preference: SafeModePreference) {
+    try {
+        localStorage.setItem(STORAGE_KEY, preference);
+    } catch {
+        // Not remembered across reloads, still applies to this one
+    }
+    update(resolve(preference));
+}
+
+/** Registers a listener for changes. Returns an unsubscribe function */
+export function subscribeSafeMode(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,53 @@
+import { trackAssessment, trackAssessmentStarted } from '../stats';
+import type { AssessmentItemId } from '../content/assessment';
+
+/**
+ * The optional pre/post knowledge check.
+ *
+ * Facilitators switch it on with `?assess` in the link. The baseline is asked
+ * once per browser tab (the send-off reloads the page, and a second baseline
+ * from the same person would not be one), and can be skipped. Its answers stay
+ * in memory until the follow-up, when both are reported together, so the
+ * learning gain only counts people who answered twice.
+ */
+
+const SESSION_KEY = 'scam-sim-assessed';
+
+export const assessmentEnabled = new URLSearchParams(window.location.search).has('assess');
+
+/** Items answered correctly in the baseline, null until it is taken */
+let baseline: AssessmentItemId[] | null = null;
+
+const markAsked = () => {
+    try {
+        sessionStorage.setItem(SESSION_KEY, '1');
+    } catch {
+        // Asked again after a reload; harmless
+    }
+};
+
+/** Whether the baseline should be asked before the splash */
+export function isBaselineDue() {
+    if (!assessmentEnabled) return false;
+    try {
+        return sessionStorage.getItem(SESSION_KEY) === null;
+    } catch {
+        return true;
+    }
+}
+
+/** Stores the baseline; `null` when it was skipped */
+export function recordBaseline(correct: AssessmentItemId[] | null) {
+    markAsked();
+    if (!correct) return;
+    baseline = correct;
+    trackAssessmentStarted();
+}
+
+/** Correct answers of the baseline, null when there is none to follow up */
+export const getBaseline = () => baseline;
+
+/** Reports the follow-up together with the baseline */
+export function recordFollowUp(correct: AssessmentItemId[]) {
+    if (baseline) trackAssessment(baseline, correct);
+}
@@ -0,0 +1,7 @@
+export {
+    assessmentEnabled,
+    isBaselineDue,
+    recordBaseline,
+    getBaseline,
+    recordFollowUp,
+} from './assessment';
@@ -0,0 +1,80 @@
+import type { Tone } from '../i18n';
+
+/**
+ * Who the experience is shown to, shared by every component.
+ *
+ * Picked on the splash screen's start gate (or preset with `?audience=kids` in
+ * the link) and remembered in localStorage. The profile decides how hard the
+ * splash scares and the roast card roasts, how loud every sound is (music
+ * included, see `audienceVolume`) and which cinematic slides play.
+ */
+
+export type Audience = 'kids' | 'teens' | 'adults' | 'seniors';
+
+export interface AudienceProfile {
+    audience: Audience;
+    /** Wording of the scare and the roast card (see `Messages['gentle']`) */
+    tone: Tone;
+    /** Multiplier for every volume: sound effects, music and voiceover */
+    soundVolume: number;
+    /** Ids of the cinematic slides left out for this audience */
+    omitSlides: string[];
+}
+
+export const AUDIENCE_PROFILES: Record<Audience, AudienceProfile> = {
+    // No crime figures or losses; the lesson is "stop and check"
+    kids: { audience: 'kids', tone: 'gentle', soundVolume: 0.4, omitSlides: ['stats', 'social'] },
+    // The full show at full volume
+    teens: { audience: 'teens', tone: 'standard', soundVolume: 1, omitSlides: [] },
+    // Often watched at work or on a bus: the same story, a little quieter
+    adults: { audience: 'adults', tone: 'standard', soundVolume: 0.7, omitSlides: [] },
+    // The full lesson minus the fast-moving statistics
+    seniors: { audience: 'seniors', tone: 'gentle', soundVolume: 0.5, omitSlides: ['stats'] },
+};
+
+/** Order of the picker buttons */
+export const AUDIENCES: Audience[] = ['kids', 'teens', 'adults', 'seniors'];
+
+const STORAGE_KEY = 'scam-sim-audience';
+
+const isAudience = (value: unknown): value is Audience => AUDIENCES.some(audience => audience === value);
+
+function readAudience(): Audience {
+    const fromLink = new URLSearchParams(window.location.search).get('audience');
+    if (isAudience(fromLink)) return fromLink;
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (isAudience(stored)) return stored;
+    } catch {
+        // Private mode: use the default
+    }
+    return 'adults';
+}
+
+let profile = AUDIENCE_PROFILES[readAudience()];
+const listeners = new Set<() => void>();
+
+/** Current profile; the object only changes when the audience does */
+export const getAudienceProfile = () => profile;
+
+/** `volume` as loud as the current profile allows; every sound sets its volume through this */
+export const audienceVolume = (volume: number) => volume * profile.soundVolume;
+
+/** Switches the audience and notifies subscribers */
+export function setAudience(audience: Audience) {
+    profile = AUDIENCE_PROFILES[audience];
+    try {
+        localStorage.setItem(STORAGE_KEY, audience);
+    } catch {
+        // Not remembered across reloads, still applies to this one
+    }
+    listeners.forEach(listener => listener());
+}
+
+/** Registers a listener for audience changes. Returns an unsubscribe function */
+export function subscribeAudience(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
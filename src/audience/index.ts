@@ -0,0 +1,10 @@
+export {
+    AUDIENCES,
+    AUDIENCE_PROFILES,
+    getAudienceProfile,
+    audienceVolume,
+    setAudience,
+    subscribeAudience,
+    type Audience,
+    type AudienceProfile,
+} from './audience';
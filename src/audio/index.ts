@@ -0,0 +1 @@
+export { createSound, stopAllSounds } from './sounds';
@@ -0,0 +1,21 @@
+/**
+ * Every sound of the experience goes through `createSound`, so the escape
+ * hatch can silence all of them at once, wherever they were started.
+ */
+
+const sounds = new Set<HTMLAudioElement>();
+
+/** `new Audio(src)`, registered until it finishes playing */
+export function createSound(src: string) {
+    const audio = new Audio(src);
+    sounds.add(audio);
+    audio.addEventListener('ended', () => {
+        if (!audio.loop) sounds.delete(audio);
+    });
+    return audio;
+}
+
+/** Pauses every sound that is still playing, music included */
+export function stopAllSounds() {
+    sounds.forEach(audio => audio.pause());
+}
@@ -0,0 +1,101 @@
+import { downloadFile, type RenderSize } from '../share';
+import type { ScenarioId } from '../scenarios';
+
+/**
+ * The optional participation certificate.
+ *
+ * The participant's name is only used to draw the certificate and is never sent
+ * anywhere. It is remembered in this browser only when the participant asks for
+ * it; otherwise it lives in the dialog's memory and is gone when it closes.
+ */
+
+export type PaperSize = 'a4' | 'letter';
+
+export interface CertificatePaper extends RenderSize {
+    id: PaperSize;
+}
+
+/** Laid out at 96 CSS pixels per inch, saved at 200 dpi */
+export const PAPERS: Record<PaperSize, CertificatePaper> = {
+    a4: { id: 'a4', width: 794, height: 1123, imageWidth: 1654 },
+    letter: { id: 'letter', width: 816, height: 1056, imageWidth: 1700 },
+};
+
+export interface CertificateDetails {
+    name: string;
+    date: Date;
+    scenario: ScenarioId;
+    /** Correct quiz answers, null when the quiz was skipped */
+    quizScore: number | null;
+    playId: string;
+}
+
+const NAME_KEY = 'scam-sim-certificate-name';
+
+/** Name remembered from an earlier certificate in this browser, '' when none */
+export function getSavedName() {
+    try {
+        return localStorage.getItem(NAME_KEY) ?? '';
+    } catch {
+        return '';
+    }
+}
+
+export function saveName(name: string) {
+    try {
+        localStorage.setItem(NAME_KEY, name);
+    } catch {
+        // Typed again next time; harmless
+    }
+}
+
+/** Drops the remembered name, e.g. on a shared classroom computer */
+export function forgetName() {
+    try {
+        localStorage.removeItem(NAME_KEY);
+    } catch {
+        // Nothing stored then
+    }
+}
+
+/** 32-bit FNV-1a; crypto.subtle is missing on plain-http LAN hosts */
+const fnv1a = (text: string, seed: number) => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/** Crockford base 32: no I, L, O or U to misread on paper */
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const encode = (value: number) =>
+    Array.from({ length: 4 }, (_, i) => ALPHABET[(value >>> (i * 5)) & 31]).join('');
+
+/**
+ * Reference number printed on the certificate, e.g. `7KQ2-M9XD`. It is derived
+ * from the printed details and the play, so each certificate has its own and a
+ * school can note it down to tell certificates apart. Nothing records it, so it
+ * cannot prove a certificate is genuine: it stands in for a verification code,
+ * which would need a server to issue and look up signed codes.
+ */
+export function certificateNumber({ name, date, scenario, quizScore, playId }: CertificateDetails) {
+    const text = [name.trim(), date.toISOString().slice(0, 10), scenario, quizScore ?? '-', playId].join('|');
+    return `${encode(fnv1a(text, 0x811c9dc5))}-${encode(fnv1a(text, 0x050c5d1f))}`;
+}
+
+const certificateFileName = (extension: 'png' | 'pdf') => `scam-aware-certificate.${extension}`;
+
+export const saveCertificatePng = (image: Blob) => downloadFile(image, certificateFileName('png'));
+
+/** Saves the rendered certificate as a one-page PDF of the paper size */
+export async function saveCertificatePdf(image: Blob, paper: CertificatePaper) {
+    // Loaded on first use: most players never ask for a PDF
+    const { jsPDF } = await import('jspdf');
+    const pdf = new jsPDF({ unit: 'pt', format: paper.id, orientation: 'portrait' });
+    const { pageSize } = pdf.internal;
+    pdf.addImage(new Uint8Array(await image.arrayBuffer()), 'PNG', 0, 0, pageSize.getWidth(), pageSize.getHeight());
+    pdf.save(certificateFileName('pdf'));
+}
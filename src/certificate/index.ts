@@ -0,0 +1,12 @@
+export {
+    PAPERS,
+    getSavedName,
+    saveName,
+    forgetName,
+    certificateNumber,
+    saveCertificatePng,
+    saveCertificatePdf,
+    type PaperSize,
+    type CertificatePaper,
+    type CertificateDetails,
+} from './certificate';
@@ -0,0 +1,58 @@
+import { useI18n } from '../hooks/useI18n';
+import type { ScamTactic } from '../content/tactics';
+
+interface AftercareProps {
+    /** Tactic on screen when the escape hatch was used */
+    tactic: ScamTactic;
+    onContinue: () => void;
+    onExit: () => void;
+}
+
+/**
+ * Aftercare Component
+ *
+ * Calm screen shown after the escape hatch: nothing was hacked, no data was
+ * collected, and what the scene that was just on screen was trying to do.
+ * Deliberately still: no animation, sound or timers.
+ */
+export const Aftercare = ({ tactic, onContinue, onExit }: AftercareProps) => {
+    const { t } = useI18n();
+
+    return (
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="aftercare-title"
+            className="fixed inset-0 z-[400] bg-slate-900 text-white flex items-center justify-center overflow-y-auto font-sans"
+        >
+            <div className="max-w-xl px-6 py-10 flex flex-col gap-5 text-left">
+                <h1 id="aftercare-title" className="text-2xl md:text-4xl font-bold text-emerald-300">{t.aftercare.title}</h1>
+                <p className="text-base md:text-lg text-gray-200">{t.aftercare.notHacked}</p>
+                <p className="text-base md:text-lg text-gray-200">{t.aftercare.noData}</p>
+
+                <div className="border-l-4 border-emerald-400/60 pl-4 mt-2">
+                    <h2 className="text-xs uppercase tracking-widest text-gray-400 mb-1">{t.aftercare.tacticHeading}</h2>
+                    <p className="text-base md:text-lg text-white">{t.aftercare.tactics[tactic]}</p>
+                </div>
+
+                <p className="text-sm md:text-base text-gray-400">{t.aftercare.advice}</p>
+
+                <div className="flex flex-wrap gap-3 mt-4">
+                    <button
+                        onClick={onContinue}
+                        autoFocus
+                        className="bg-emerald-500 text-black font-bold py-2 px-6 rounded-full hover:bg-emerald-400 transition-colors"
+                    >
+                        {t.aftercare.continue}
+                    </button>
+                    <button
+                        onClick={onExit}
+                        className="border border-white/30 text-white font-bold py-2 px-6 rounded-full hover:bg-white/10 transition-colors"
+                    >
+                        {t.aftercare.exit}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useRef } from 'react';
+import { animate, motion } from 'framer-motion';
+
+interface AnimatedCounterProps {
+    /** Target value to count towards */
+    value: number;
+    /** Classes for the number */
+    className?: string;
+}
+
+/**
+ * AnimatedCounter Component
+ * 
+ * Counts up from the previously shown value whenever `value` changes,
+ * with a short pop so new victims are noticeable on a projected screen.
+ * Shows "..." until the first real value arrives.
+ */
+export const AnimatedCounter = ({ value, className }: AnimatedCounterProps) => {
+    const [display, setDisplay] = useState(value);
+    const previousRef = useRef(value);
+
+    useEffect(() => {
+        const controls = animate(previousRef.current, value, {
+            duration: 1.2,
+            ease: 'easeOut',
+            onUpdate: (latest) => setDisplay(Math.round(latest)),
+        });
+        previousRef.current = value;
+        return () => controls.stop();
+    }, [value]);
+
+    return (
+        <motion.span
+            key={value}
+            className={className}
+            initial={{ scale: 1.3 }}
+            animate={{ scale: 1 }}
+            transition={{ duration: 0.4 }}
+        >
+            {value > 0 ? display.toLocaleString() : '...'}
+        </motion.span>
+    );
+};
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { LanguagePicker } from './LanguagePicker';
+import { useI18n } from '../hooks/useI18n';
+import { formatMessage } from '../i18n';
+import { localize } from '../content/script';
+import { ASSESSMENT, type AssessmentItemId } from '../content/assessment';
+
+type Answer = boolean | 'notSure';
+
+interface AssessmentProps {
+    phase: 'pre' | 'post';
+    /** Correct answers of the baseline; the follow-up shows the comparison */
+    baseline?: number;
+    /** Receives the items answered correctly, or null when skipped */
+    onDone: (correct: AssessmentItemId[] | null) => void;
+}
+
+/**
+ * Assessment Component
+ *
+ * The short knowledge check of the pre/post assessment (see `src/assessment`).
+ * All items on one page, true / false / not sure; "not sure" counts as wrong.
+ * No answers are revealed, so the baseline does not give the lesson away.
+ */
+export const Assessment = ({ phase, baseline, onDone }: AssessmentProps) => {
+    const { locale, t } = useI18n();
+    const [answers, setAnswers] = useState<Partial<Record<AssessmentItemId, Answer>>>({});
+    const [correct, setCorrect] = useState<AssessmentItemId[] | null>(null);
+
+    const complete = ASSESSMENT.every(item => answers[item.id] !== undefined);
+    const choices: { value: Answer; label: string }[] = [
+        { value: true, label: t.assessment.true },
+        { value: false, label: t.assessment.false },
+        { value: 'notSure', label: t.assessment.notSure },
+    ];
+
+    const submit = () => {
+        const right = ASSESSMENT.filter(item => answers[item.id] === item.answer).map(item => item.id);
+        if (phase === 'post' && baseline !== undefined) {
+            setCorrect(right);
+        } else {
+            onDone(right);
+        }
+    };
+
+    return (
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="assessment-title"
+            className="fixed inset-0 z-[110] bg-black overflow-y-auto pointer-events-auto text-white"
+        >
+            <div className="max-w-xl mx-auto px-6 py-10 flex flex-col gap-6 text-left">
+                <div>
+                    <h2 id="assessment-title" className="text-xl md:text-2xl font-bold">
+                        {phase === 'pre' ? t.assessment.preTitle : t.assessment.postTitle}
+                    </h2>
+                    <p className="text-gray-400 text-sm mt-1">{t.assessment.intro}</p>
+                </div>
+
+                {/* The splash's start gate (and its picker) comes after the baseline */}
+                {phase === 'pre' && <LanguagePicker />}
+
+                {correct ? (
+                    <>
+                        <p className="text-2xl font-black text-yellow-400" role="status">
+                            {formatMessage(t.assessment.result, {
+                                before: String(baseline),
+                                after: String(correct.length),
+                                total: String(ASSESSMENT.length),
+                            })}
+                        </p>
+                        <button
+                            onClick={() => onDone(correct)}
+                            autoFocus
+                            className="self-center bg-red-600 text-white font-bold py-2 px-6 rounded-full hover:bg-red-700 transition-colors"
+                        >
+                            {t.assessment.continue} ➡️
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        {ASSESSMENT.map((item, i) => (
+                            <fieldset key={item.id} className="border-t border-white/10 pt-4">
+                                <legend className="font-bold mb-3">{i + 1}. {localize(item.statement, locale)}</legend>
+                                <div className="flex flex-wrap gap-2">
+                                    {choices.map(choice => (
+                                        <label
+                                            key={String(choice.value)}
+                                            className={`rounded-full border px-4 py-2 text-sm cursor-pointer transition-colors ${answers[item.id] === choice.value
+                                                ? 'bg-yellow-400 border-yellow-400 text-black'
+                                                : 'border-white/30 hover:bg-white/10'}`}
+                                        >
+                                            <input
+                                                type="radio"
+                                                name={item.id}
+                                                className="sr-only"
+                                                checked={answers[item.id] === choice.value}
+                                                onChange={() => setAnswers({ ...answers, [item.id]: choice.value })}
+                                            />
+                                            {choice.label}
+                                        </label>
+                                    ))}
+                                </div>
+                            </fieldset>
+                        ))}
+
+                        <div className="flex items-center justify-center gap-4">
+                            <button
+                                onClick={() => onDone(null)}
+                                className="text-sm text-gray-400 hover:text-white underline"
+                            >
+                                {t.assessment.skip}
+                            </button>
+                            <button
+                                onClick={submit}
+                                disabled={!complete}
+                                className="bg-red-600 text-white font-bold py-2 px-6 rounded-full hover:bg-red-700 transition-colors disabled:opacity-40"
+                            >
+                                {t.assessment.submit}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
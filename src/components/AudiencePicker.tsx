@@ -0,0 +1,35 @@
+import { AUDIENCES } from '../audience';
+import { useAudience } from '../hooks/useAudience';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * AudiencePicker Component
+ *
+ * Audience buttons on the splash screen's start gate. The profile softens the
+ * scare and the roast card, lowers the sound and trims the cinematic for
+ * younger and older viewers.
+ * Clicks stay inside the picker so choosing an audience does not start the splash.
+ */
+export const AudiencePicker = () => {
+    const { t } = useI18n();
+    const { profile, setAudience } = useAudience();
+
+    return (
+        <div className="mt-4 flex flex-col items-center gap-2" onClick={e => e.stopPropagation()}>
+            <p className="text-gray-400 text-xs uppercase tracking-widest">{t.audiencePicker.prompt}</p>
+            <div className="flex flex-wrap justify-center gap-2">
+                {AUDIENCES.map(audience => (
+                    <button
+                        key={audience}
+                        onClick={() => setAudience(audience)}
+                        className={`rounded-full px-4 py-1 text-xs font-bold border transition-colors ${audience === profile.audience
+                            ? 'bg-white border-white text-black'
+                            : 'border-white/30 text-white hover:bg-white/10'}`}
+                    >
+                        {t.audiencePicker[audience]}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import { useI18n } from '../hooks/useI18n';
+import { formatMessage } from '../i18n';
+import { certificateNumber, type CertificateDetails, type CertificatePaper } from '../certificate';
+import { QUIZ } from '../content/quiz';
+
+interface CertificateProps {
+    paper: CertificatePaper;
+    details: CertificateDetails;
+}
+
+/**
+ * Certificate Component
+ *
+ * The printable participation certificate, laid out at the paper's CSS size.
+ * Like the roast card it is rendered to an image with html2canvas, so
+ * translated text gets no letter-spacing (see RoastCard).
+ */
+export const Certificate = ({ paper, details }: CertificateProps) => {
+    const { locale, t } = useI18n();
+    const date = new Intl.DateTimeFormat(`${locale}-LK`, { dateStyle: 'long' }).format(details.date);
+
+    return (
+        <div
+            lang={locale}
+            style={{ width: paper.width, height: paper.height }}
+            className="bg-white p-12 font-sans text-gray-900"
+        >
+            <div className="w-full h-full border-[6px] border-double border-red-700 px-16 py-14 flex flex-col items-center text-center">
+                <img src="/logo.png" alt="" className="h-32 w-auto mb-8" />
+                <p className="text-lg font-bold text-red-700 uppercase">{t.certificate.heading}</p>
+                <h1 className="text-6xl font-black text-gray-900 mt-4 mb-12">{t.certificate.award}</h1>
+
+                <p className="text-lg text-gray-600">{t.certificate.certifies}</p>
+                <p className="font-serif text-5xl font-bold my-6 px-4 pb-4 border-b-2 border-gray-300 w-full break-words">
+                    {details.name.trim()}
+                </p>
+                <p className="text-lg text-gray-700 max-w-xl">{t.certificate.completed}</p>
+
+                <div className="mt-10 space-y-2 text-lg">
+                    <p>{formatMessage(t.certificate.scenario, { scenario: t.certificate.scenarios[details.scenario] })}</p>
+                    <p>
+                        {details.quizScore === null
+                            ? t.certificate.quizSkipped
+                            : formatMessage(t.certificate.quizScore, { score: String(details.quizScore), total: String(QUIZ.length) })}
+                    </p>
+                </div>
+
+                <p className="mt-auto text-2xl font-bold text-red-700">{t.certificate.issuedBy}</p>
+                <div className="w-full flex justify-between items-end mt-10 text-left">
+                    <div>
+                        <p className="text-xs text-gray-500 uppercase">{t.certificate.date}</p>
+                        <p className="text-lg">{date}</p>
+                    </div>
+                    <div className="text-right">
+                        <p className="text-xs text-gray-500 uppercase">{t.certificate.number}</p>
+                        <p className="text-lg font-mono">{certificateNumber(details)}</p>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react';
+import { Certificate } from './Certificate';
+import { getPlayId } from '../stats';
+import { currentScenario } from '../scenarios';
+import { renderToImage } from '../share';
+import { PAPERS, forgetName, getSavedName, saveCertificatePdf, saveCertificatePng, saveName, type PaperSize } from '../certificate';
+import { useI18n } from '../hooks/useI18n';
+
+interface CertificateDialogProps {
+    /** Correct quiz answers, null when the quiz was skipped */
+    quizScore: number | null;
+    onClose: () => void;
+}
+
+/** Width of the on-screen certificate preview, in CSS pixels */
+const PREVIEW_WIDTH = 280;
+
+/**
+ * CertificateDialog Component
+ *
+ * Optional step after the roast card: the participant types their name, picks
+ * A4 or Letter and saves the certificate as a PNG or a PDF. The name is only
+ * remembered in this browser when the participant ticks the box for it (see
+ * `src/certificate`). Closes with Escape.
+ */
+export const CertificateDialog = ({ quizScore, onClose }: CertificateDialogProps) => {
+    const { t } = useI18n();
+    const [name, setName] = useState(getSavedName);
+    // Ticked when the name was remembered last time, so the choice carries over
+    const [remember, setRemember] = useState(() => getSavedName() !== '');
+    const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+    const [saving, setSaving] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const [date] = useState(() => new Date());
+    const certificateRef = useRef<HTMLDivElement>(null);
+
+    const paper = PAPERS[paperSize];
+    const details = { name, date, scenario: currentScenario.id, quizScore, playId: getPlayId() };
+    const previewScale = PREVIEW_WIDTH / paper.width;
+    const ready = name.trim() !== '' && !saving;
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [onClose]);
+
+    const toggleRemember = (checked: boolean) => {
+        setRemember(checked);
+        if (!checked) forgetName();
+    };
+
+    const save = async (format: 'png' | 'pdf') => {
+        if (!certificateRef.current || !ready) return;
+        setSaving(true);
+        setFailed(false);
+        if (remember) saveName(name.trim());
+        try {
+            const image = await renderToImage(certificateRef.current, paper);
+            if (format === 'png') saveCertificatePng(image);
+            else await saveCertificatePdf(image, paper);
+        } catch {
+            setFailed(true);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const buttonClass = 'bg-white text-black font-bold py-2 px-6 rounded-full hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="certificate-title"
+            className="fixed inset-0 z-[110] bg-black/95 overflow-y-auto pointer-events-auto text-white"
+        >
+            <div className="max-w-2xl mx-auto px-4 py-8 flex flex-col items-center gap-6">
+                <h2 id="certificate-title" className="text-xl md:text-2xl font-bold self-start">{t.certificate.title}</h2>
+
+                <label className="w-full flex flex-col gap-2 text-left text-sm text-gray-300">
+                    {t.certificate.nameLabel}
+                    <input
+                        type="text"
+                        value={name}
+                        maxLength={60}
+                        autoFocus
+                        autoComplete="name"
+                        onChange={e => setName(e.target.value)}
+                        className="w-full rounded bg-white/10 border border-white/30 px-4 py-2 text-lg text-white focus:outline-none focus:border-yellow-400"
+                    />
+                    <span className="text-xs text-gray-500">{t.certificate.namePrivacy}</span>
+                </label>
+                <label className="w-full -mt-4 flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={remember} onChange={e => toggleRemember(e.target.checked)} />
+                    {t.certificate.rememberName}
+                </label>
+
+                <div className="flex gap-2">
+                    {Object.values(PAPERS).map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setPaperSize(option.id)}
+                            className={`rounded-full px-4 py-1 text-xs font-bold border transition-colors ${option.id === paperSize
+                                ? 'bg-white border-white text-black'
+                                : 'border-white/30 text-white hover:bg-white/10'}`}
+                        >
+                            {t.certificate.paper[option.id]}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Preview, scaled to fit the screen */}
+                <div className="shadow-2xl" style={{ width: PREVIEW_WIDTH, height: paper.height * previewScale }}>
+                    <div style={{ transform: `scale(${previewScale})`, transformOrigin: 'top left' }}>
+                        <Certificate paper={paper} details={details} />
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap justify-center gap-4">
+                    <button onClick={() => save('png')} disabled={!ready} className={buttonClass}>
+                        🖼️ {t.certificate.downloadPng}
+                    </button>
+                    <button onClick={() => save('pdf')} disabled={!ready} className={buttonClass}>
+                        📄 {t.certificate.downloadPdf}
+                    </button>
+                    <button onClick={onClose} className="bg-white/10 hover:bg-white/20 rounded-full px-6 py-2 text-white">
+                        {t.certificate.close}
+                    </button>
+                </div>
+                {failed && <p className="text-red-400 text-sm" role="alert">{t.certificate.saveFailed}</p>}
+            </div>
+
+            {/* Full-size copy the image is rendered from */}
+            <div ref={certificateRef} aria-hidden="true" className="fixed top-0 left-[-10000px]">
+                <Certificate paper={paper} details={details} />
+            </div>
+        </div>
+    );
+};
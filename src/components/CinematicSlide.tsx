@@ -0,0 +1,128 @@
+import { Fragment } from 'react';
+import { motion } from 'framer-motion';
+import { StatItem } from './StatItem';
+import type { Locale } from '../i18n';
+import { localize, type ScriptLine, type ScriptSegment, type SlideMotion, type TextStyle } from '../content/script';
+
+const TEXT_STYLES: Record<TextStyle, string> = {
+    intro: 'text-xl md:text-3xl font-light tracking-wider text-gray-300',
+    alarm: 'text-4xl md:text-6xl font-black text-red-600 tracking-tighter mb-4 glitch-text',
+    tags: 'flex flex-wrap justify-center gap-4 text-sm md:text-lg text-gray-400 font-mono',
+    display: 'text-3xl md:text-5xl font-bold text-white tracking-tight mb-2',
+    title: 'text-2xl md:text-4xl text-white font-bold mb-4',
+    accent: 'text-xl md:text-3xl text-blue-400 font-bold',
+    kicker: 'text-xs md:text-sm text-gray-500 tracking-[0.2em] mb-4 uppercase',
+    alertKicker: 'text-xs md:text-sm text-red-500 tracking-[0.3em] mb-6 uppercase font-bold',
+    lead: 'text-xl md:text-3xl text-gray-300 mb-4',
+    body: 'text-lg md:text-2xl text-gray-400 font-light',
+    serif: 'text-4xl md:text-7xl font-serif text-amber-100 mb-8',
+    motto: 'text-lg md:text-2xl text-white font-light tracking-wider',
+    note: 'text-sm md:text-base text-gray-500 mt-2',
+    credit: 'text-2xl md:text-4xl text-white font-medium tracking-wide',
+    festive: 'text-3xl md:text-5xl text-red-500 font-serif italic',
+};
+
+const SLIDE_MOTIONS: Record<SlideMotion, object> = {
+    fade: { initial: { opacity: 0 }, animate: { opacity: 1 } },
+    blur: { initial: { opacity: 0, filter: 'blur(10px)' }, animate: { opacity: 1, filter: 'blur(0px)' } },
+    zoom: { initial: { opacity: 0, scale: 0.9 }, animate: { opacity: 1, scale: 1 } },
+    rise: { initial: { opacity: 0, y: 10 }, animate: { opacity: 1, y: 0 } },
+    slow: { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { duration: 1.5 } },
+};
+
+/**
+ * Renders `\n` as line breaks and `**text**` as red emphasis.
+ */
+const RichText = ({ text }: { text: string }) => (
+    <>
+        {text.split('\n').map((row, i) => (
+            <Fragment key={i}>
+                {i > 0 && <br />}
+                {row.split('**').map((part, j) =>
+                    j % 2 === 1 ? <span key={j} className="text-red-500 font-bold">{part}</span> : part,
+                )}
+            </Fragment>
+        ))}
+    </>
+);
+
+const Line = ({ line, locale }: { line: ScriptLine; locale: Locale }) => {
+    const text = localize(line.text, locale);
+
+    return (
+        <motion.div
+            className={TEXT_STYLES[line.style]}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+        >
+            {line.style === 'tags'
+                ? text.split(' · ').map(tag => <span key={tag}>{tag}</span>)
+                : <RichText text={text} />}
+        </motion.div>
+    );
+};
+
+interface CinematicSlideProps {
+    segment: ScriptSegment;
+    /** Playback position inside the segment in seconds; lines appear once it passes their delay */
+    elapsed: number;
+}
+
+/**
+ * CinematicSlide Component
+ *
+ * Renders one segment of a script (see `content/script.ts`) in its language.
+ * Every scripted scene goes through here, so a new slide only needs data.
+ * Reveals follow the playback position rather than wall-clock delays, so they
+ * stay in sync with the sound cues when the viewer pauses, seeks or changes speed.
+ */
+export const CinematicSlide = ({ segment, elapsed }: CinematicSlideProps) => {
+    const { slide, locale } = segment;
+
+    switch (slide.layout) {
+        case 'headline':
+        case 'quote':
+            return (
+                <motion.div
+                    className={`z-10 text-center px-4 flex flex-col items-center ${slide.layout === 'quote' ? 'max-w-2xl' : 'max-w-4xl'}`}
+                    {...SLIDE_MOTIONS[slide.motion ?? 'fade']}
+                >
+                    {slide.lines.map((line, i) => elapsed >= (line.delay ?? 0) && <Line key={i} line={line} locale={locale} />)}
+                </motion.div>
+            );
+
+        case 'statList':
+            return (
+                <motion.div className="z-10 w-full max-w-3xl px-6 flex flex-col gap-6" {...SLIDE_MOTIONS[slide.motion ?? 'fade']}>
+                    {slide.stats.map((stat, i) => elapsed >= stat.delay && (
+                        <StatItem
+                            key={i}
+                            delay={0}
+                            label={localize(stat.label, locale)}
+                            value={localize(stat.value, locale)}
+                            color={stat.color}
+                        />
+                    ))}
+                </motion.div>
+            );
+
+        case 'logo':
+            return (
+                <motion.div
+                    className="z-10 flex flex-col items-center justify-center p-4"
+                    initial={{ opacity: 0, scale: 0.8, filter: 'brightness(0)' }}
+                    animate={{ opacity: 1, scale: 1, filter: 'brightness(1.2)' }}
+                    transition={{ duration: 1.5, ease: 'easeInOut' }}
+                >
+                    <motion.img
+                        src={slide.src}
+                        alt={slide.alt}
+                        className="w-32 md:w-64 object-contain shadow-[0_0_50px_rgba(255,255,255,0.4)] rounded-full"
+                        initial={{ rotate: -5 }}
+                        animate={{ rotate: 0 }}
+                        transition={{ duration: 3, ease: 'easeOut' }}
+                    />
+                </motion.div>
+            );
+    }
+};
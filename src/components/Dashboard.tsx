@@ -0,0 +1,424 @@
+import { useState } from 'react';
+import { useStatsReport } from '../hooks/useStatsReport';
+import { reportToCsv, slugifyCohort, baseBackend, type ScopeStats } from '../stats';
+import { downloadFile } from '../share';
+
+const UNLOCK_KEY = 'scam-sim-dashboard-unlocked';
+const COHORTS_KEY = 'scam-sim-dashboard-cohorts';
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Triggers a browser download of text content.
+ */
+const downloadText = (filename: string, content: string, type: string) =>
+    downloadFile(new Blob([content], { type }), filename);
+
+/**
+ * Passcode screen shown before the dashboard when `VITE_ADMIN_PASSCODE` is set.
+ * This only keeps casual participants out: counters are readable from the backend anyway.
+ */
+const PasscodeGate = ({ onUnlock }: { onUnlock: () => void }) => {
+    const [value, setValue] = useState('');
+    const [wrong, setWrong] = useState(false);
+
+    return (
+        <form
+            className="flex flex-col items-center gap-4"
+            onSubmit={e => {
+                e.preventDefault();
+                if (value === import.meta.env.VITE_ADMIN_PASSCODE) {
+                    sessionStorage.setItem(UNLOCK_KEY, '1');
+                    onUnlock();
+                } else {
+                    setWrong(true);
+                }
+            }}
+        >
+            <h1 className="text-xl uppercase tracking-widest text-gray-300">Facilitator Dashboard</h1>
+            <input
+                type="password"
+                value={value}
+                onChange={e => { setValue(e.target.value); setWrong(false); }}
+                placeholder="Passcode"
+                autoFocus
+                className="bg-black/40 border border-white/20 rounded px-4 py-2 text-white font-mono"
+            />
+            {wrong && <p className="text-red-400 text-sm">Wrong passcode</p>}
+            <button className="bg-red-600 text-white font-bold py-2 px-6 rounded-full hover:bg-red-700 transition-colors">
+                Unlock
+            </button>
+        </form>
+    );
+};
+
+/**
+ * One headline number.
+ */
+const SummaryCard = ({ label, value, color = 'text-white' }: { label: string; value: string; color?: string }) => (
+    <div className="bg-black/40 border border-white/10 rounded p-4">
+        <div className="text-[10px] uppercase tracking-widest text-gray-400 font-mono">{label}</div>
+        <div className={`text-2xl md:text-3xl font-bold font-mono ${color}`}>{value}</div>
+    </div>
+);
+
+/**
+ * Funnel table with a bar per stage showing the share of people still there.
+ */
+const FunnelTable = ({ scope }: { scope: ScopeStats }) => (
+    <table className="w-full text-sm font-mono">
+        <thead>
+            <tr className="text-left text-gray-500 text-xs uppercase">
+                <th className="py-1">Stage</th>
+                <th className="py-1 text-right">Count</th>
+                <th className="py-1 text-right">Of start</th>
+                <th className="py-1 text-right">Drop-off</th>
+            </tr>
+        </thead>
+        <tbody>
+            {scope.funnel.map(row => (
+                <tr key={row.stage} className="border-t border-white/5">
+                    <td className="py-1 pr-4">
+                        <div>{row.label}</div>
+                        <div className="h-1 bg-red-600/70 mt-1" style={{ width: `${row.ofStart * 100}%` }} />
+                    </td>
+                    <td className="py-1 text-right">{row.count.toLocaleString()}</td>
+                    <td className="py-1 text-right text-gray-400">{percent(row.ofStart)}</td>
+                    <td className={`py-1 text-right ${row.dropOff > 0.3 ? 'text-red-400' : 'text-gray-400'}`}>
+                        {percent(row.dropOff)}
+                    </td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+/**
+ * Early exits through the escape hatch and what people did next.
+ */
+const OutcomeTable = ({ scope }: { scope: ScopeStats }) => (
+    <table className="w-full text-sm font-mono">
+        <thead>
+            <tr className="text-left text-gray-500 text-xs uppercase">
+                <th className="py-1">Outcome</th>
+                <th className="py-1 text-right">Count</th>
+                <th className="py-1 text-right">Of start</th>
+            </tr>
+        </thead>
+        <tbody>
+            {scope.outcomes.map(row => (
+                <tr key={row.outcome} className="border-t border-white/5">
+                    <td className="py-1 pr-4">{row.label}</td>
+                    <td className="py-1 text-right">{row.count.toLocaleString()}</td>
+                    <td className="py-1 text-right text-gray-400">{percent(row.ofStart)}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+/**
+ * Red-flag hunt results: how many played, and which flags people find or miss.
+ */
+const HuntTable = ({ scope }: { scope: ScopeStats }) => (
+    <div className="flex flex-col gap-2">
+        <p className="text-sm font-mono text-gray-400">
+            {scope.hunt.completed.toLocaleString()} hunts · {scope.hunt.averageFound.toFixed(1)} flags found on average
+            · {percent(scope.hunt.clean)} without a wrong tap
+        </p>
+        <table className="w-full text-sm font-mono">
+            <thead>
+                <tr className="text-left text-gray-500 text-xs uppercase">
+                    <th className="py-1">Red flag</th>
+                    <th className="py-1 text-right">Found</th>
+                    <th className="py-1 text-right">Of hunts</th>
+                </tr>
+            </thead>
+            <tbody>
+                {scope.hunt.flags.map(row => (
+                    <tr key={row.flag} className="border-t border-white/5">
+                        <td className="py-1 pr-4">{row.label}</td>
+                        <td className="py-1 text-right">{row.found.toLocaleString()}</td>
+                        <td className={`py-1 text-right ${row.ofCompleted < 0.5 ? 'text-red-400' : 'text-gray-400'}`}>
+                            {percent(row.ofCompleted)}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+/**
+ * Share of correct answers per quiz question, weakest lessons in red.
+ */
+const QuizTable = ({ scope }: { scope: ScopeStats }) => (
+    <table className="w-full text-sm font-mono">
+        <thead>
+            <tr className="text-left text-gray-500 text-xs uppercase">
+                <th className="py-1">Question</th>
+                <th className="py-1 text-right">Answered</th>
+                <th className="py-1 text-right">Correct</th>
+            </tr>
+        </thead>
+        <tbody>
+            {scope.quiz.map(row => (
+                <tr key={row.question} className="border-t border-white/5">
+                    <td className="py-1 pr-4">
+                        <div>{row.label}</div>
+                        <div className="h-1 bg-green-600/70 mt-1" style={{ width: `${row.correctRate * 100}%` }} />
+                    </td>
+                    <td className="py-1 text-right">{row.answered.toLocaleString()}</td>
+                    <td className={`py-1 text-right ${row.correctRate < 0.5 ? 'text-red-400' : 'text-gray-400'}`}>
+                        {percent(row.correctRate)}
+                    </td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+/** Signed percentage points, e.g. `+25.0 pts` */
+const points = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+
+/**
+ * Pre/post knowledge check: correct answers before and after, and the learning gain.
+ */
+const AssessmentTable = ({ scope }: { scope: ScopeStats }) => (
+    <div className="flex flex-col gap-2">
+        <p className="text-sm font-mono text-gray-400">
+            {scope.assessment.started.toLocaleString()} baselines · {scope.assessment.paired.toLocaleString()} answered
+            before and after · learning gain{' '}
+            <span className={scope.assessment.gain > 0 ? 'text-green-400' : 'text-gray-300'}>{points(scope.assessment.gain)}</span>
+        </p>
+        <table className="w-full text-sm font-mono">
+            <thead>
+                <tr className="text-left text-gray-500 text-xs uppercase">
+                    <th className="py-1">Item</th>
+                    <th className="py-1 text-right">Before</th>
+                    <th className="py-1 text-right">After</th>
+                    <th className="py-1 text-right">Gain</th>
+                </tr>
+            </thead>
+            <tbody>
+                {scope.assessment.items.map(row => (
+                    <tr key={row.item} className="border-t border-white/5">
+                        <td className="py-1 pr-4">{row.label}</td>
+                        <td className="py-1 text-right text-gray-400">{percent(row.before)}</td>
+                        <td className="py-1 text-right">{percent(row.after)}</td>
+                        <td className="py-1 text-right">{points(row.after - row.before)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+/**
+ * Daily plays (grey) and victim plays (red) as a simple bar chart.
+ */
+const DailyChart = ({ scope }: { scope: ScopeStats }) => {
+    const max = Math.max(1, ...scope.daily.map(day => day.totals.plays));
+
+    return (
+        <div className="flex items-end gap-1 h-40">
+            {scope.daily.map(day => (
+                <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full" title={`${day.date}: ${day.totals.plays} plays, ${day.totals.victimPlays} clicked`}>
+                    <div className="w-full relative bg-white/20" style={{ height: `${(day.totals.plays / max) * 100}%` }}>
+                        <div className="absolute bottom-0 left-0 w-full bg-red-600" style={{ height: `${(day.totals.victimPlays / Math.max(1, day.totals.plays)) * 100}%` }} />
+                    </div>
+                    <div className="text-[9px] text-gray-500 font-mono mt-1">{day.date.slice(5)}</div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+/**
+ * Dashboard Component
+ *
+ * Facilitator view opened with `?admin`. Reads the unscoped stats backend and shows
+ * visitors, victims, click-through rate, funnel drop-off, cohort comparison and a
+ * daily time series, with CSV / JSON export.
+ */
+export const Dashboard = () => {
+    const passcode = import.meta.env.VITE_ADMIN_PASSCODE;
+    const [unlocked, setUnlocked] = useState(() => !passcode || sessionStorage.getItem(UNLOCK_KEY) === '1');
+    const [cohortInput, setCohortInput] = useState(() => localStorage.getItem(COHORTS_KEY) || '');
+    /** What is typed in the cohort field; the report only reloads once it is applied */
+    const [cohortDraft, setCohortDraft] = useState(cohortInput);
+    const [selected, setSelected] = useState('all');
+
+    const cohortIds = cohortInput.split(',').map(slugifyCohort).filter(Boolean);
+    // Nothing is fetched while the passcode screen is up
+    const { report, loading, error, refresh } = useStatsReport(cohortIds, unlocked);
+
+    if (!unlocked) {
+        return (
+            <div className="fixed inset-0 bg-[#050510] text-white flex items-center justify-center font-sans">
+                <PasscodeGate onUnlock={() => setUnlocked(true)} />
+            </div>
+        );
+    }
+
+    const scopes = report ? [report.overall, ...report.cohorts] : [];
+    const scope = scopes.find(s => s.scope === selected) ?? report?.overall;
+
+    return (
+        <div className="fixed inset-0 overflow-y-auto bg-[#050510] text-white font-sans">
+            <div className="max-w-5xl mx-auto p-6 flex flex-col gap-8">
+                <header className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-wide">Facilitator Dashboard</h1>
+                        <p className="text-xs text-gray-500 font-mono">
+                            backend: {baseBackend.name}
+                            {report && ` · updated ${new Date(report.generatedAt).toLocaleTimeString()}`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={refresh} disabled={loading} className="bg-white/10 hover:bg-white/20 rounded-full px-4 py-2 text-sm disabled:opacity-50">
+                            {loading ? 'Loading…' : 'Refresh'}
+                        </button>
+                        <button
+                            onClick={() => report && downloadText('scam-sim-report.csv', reportToCsv(report), 'text/csv')}
+                            disabled={!report}
+                            className="bg-white text-black font-bold rounded-full px-4 py-2 text-sm disabled:opacity-50"
+                        >
+                            Export CSV
+                        </button>
+                        <button
+                            onClick={() => report && downloadText('scam-sim-report.json', JSON.stringify(report, null, 2), 'application/json')}
+                            disabled={!report}
+                            className="bg-white text-black font-bold rounded-full px-4 py-2 text-sm disabled:opacity-50"
+                        >
+                            Export JSON
+                        </button>
+                    </div>
+                </header>
+
+                {error && <p className="text-red-400 font-mono text-sm">Could not load stats: {error}</p>}
+
+                {/* Cohorts */}
+                <section className="flex flex-col gap-2">
+                    <label className="text-xs uppercase tracking-widest text-gray-400">
+                        Cohorts (comma separated, as used in <code>?cohort=</code> links)
+                    </label>
+                    <form
+                        className="flex gap-2"
+                        onSubmit={e => {
+                            e.preventDefault();
+                            setCohortInput(cohortDraft);
+                            localStorage.setItem(COHORTS_KEY, cohortDraft);
+                        }}
+                    >
+                        <input
+                            value={cohortDraft}
+                            onChange={e => setCohortDraft(e.target.value)}
+                            placeholder="Grade 10-B, Grade 11-A"
+                            className="flex-1 bg-black/40 border border-white/20 rounded px-3 py-2 text-sm font-mono"
+                        />
+                        <button
+                            type="submit"
+                            disabled={cohortDraft === cohortInput}
+                            className="bg-white/10 hover:bg-white/20 rounded px-4 py-2 text-sm disabled:opacity-50"
+                        >
+                            Apply
+                        </button>
+                    </form>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {scopes.map(s => (
+                            <button
+                                key={s.scope}
+                                onClick={() => setSelected(s.scope)}
+                                className={`rounded-full px-3 py-1 text-xs font-mono border ${s.scope === scope?.scope ? 'bg-red-600 border-red-600' : 'border-white/20 hover:bg-white/10'}`}
+                            >
+                                {s.label}
+                            </button>
+                        ))}
+                    </div>
+                </section>
+
+                {scope && (
+                    <>
+                        {/* Headline numbers */}
+                        <section className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            <SummaryCard label="Unique visitors" value={scope.totals.visitors.toLocaleString()} />
+                            <SummaryCard label="Unique victims" value={scope.totals.victims.toLocaleString()} color="text-red-500" />
+                            <SummaryCard label="Click-through" value={percent(scope.clickThroughRate)} color="text-yellow-400" />
+                            <SummaryCard label="Total plays" value={scope.totals.plays.toLocaleString()} />
+                            <SummaryCard label="Gift clicks" value={scope.totals.victimPlays.toLocaleString()} />
+                        </section>
+
+                        {/* Funnel */}
+                        <section>
+                            <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Funnel</h2>
+                            <FunnelTable scope={scope} />
+                        </section>
+
+                        {/* Escape hatch */}
+                        <section>
+                            <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Early exits</h2>
+                            <OutcomeTable scope={scope} />
+                        </section>
+
+                        <section>
+                            <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Red-flag hunt</h2>
+                            <HuntTable scope={scope} />
+                        </section>
+
+                        <section>
+                            <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Quiz</h2>
+                            <QuizTable scope={scope} />
+                        </section>
+
+                        <section>
+                            <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Learning gain</h2>
+                            <AssessmentTable scope={scope} />
+                        </section>
+
+                        {/* Time series */}
+                        <section>
+                            <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Last {scope.daily.length} days</h2>
+                            <DailyChart scope={scope} />
+                        </section>
+                    </>
+                )}
+
+                {/* Cohort comparison */}
+                {report && report.cohorts.length > 0 && (
+                    <section>
+                        <h2 className="text-sm uppercase tracking-widest text-gray-400 mb-3">Cohort comparison</h2>
+                        <table className="w-full text-sm font-mono">
+                            <thead>
+                                <tr className="text-left text-gray-500 text-xs uppercase">
+                                    <th className="py-1">Cohort</th>
+                                    <th className="py-1 text-right">Visitors</th>
+                                    <th className="py-1 text-right">Clicked</th>
+                                    <th className="py-1 text-right">Click-through</th>
+                                    <th className="py-1 text-right">Finished lesson</th>
+                                    <th className="py-1 text-right">Learning gain</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.cohorts.map(c => (
+                                    <tr key={c.scope} className="border-t border-white/5">
+                                        <td className="py-1">{c.label}</td>
+                                        <td className="py-1 text-right">{c.totals.visitors.toLocaleString()}</td>
+                                        <td className="py-1 text-right text-red-400">{c.totals.victims.toLocaleString()}</td>
+                                        <td className="py-1 text-right">{percent(c.clickThroughRate)}</td>
+                                        <td className="py-1 text-right">
+                                            {c.funnel.find(row => row.stage === 'cinematic_completed')?.count.toLocaleString() ?? 0}
+                                        </td>
+                                        <td className="py-1 text-right">
+                                            {c.assessment.paired > 0 ? points(c.assessment.gain) : '-'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
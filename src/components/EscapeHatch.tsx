@@ -0,0 +1,23 @@
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * EscapeHatch Component
+ *
+ * A quiet corner button that is always on screen while anything scary can
+ * happen. It ends the simulation at once and opens the aftercare screen.
+ */
+export const EscapeHatch = ({ onEscape }: { onEscape: () => void }) => {
+    const { t } = useI18n();
+
+    return (
+        <button
+            onClick={e => {
+                e.stopPropagation();
+                onEscape();
+            }}
+            className="fixed top-3 left-3 z-[300] pointer-events-auto rounded-full bg-black/40 border border-white/20 px-3 py-1 text-[10px] md:text-xs text-white/60 hover:text-white hover:bg-black/70 focus:text-white transition-colors"
+        >
+            🛡️ {t.escapeHatch.label}
+        </button>
+    );
+};
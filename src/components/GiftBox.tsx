@@ -3,6 +3,10 @@ import { motion } from 'framer-motion-3d'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 import { MagicalSurprise } from './MagicalSurprise'
+import { createSound } from '../audio'
+import { audienceVolume } from '../audience'
+
+const GIFT_SOUND_VOLUME = 0.7
 
 interface GiftBoxProps {
     /** Whether the box has started its drop animation */
@@ -19,6 +23,8 @@ interface GiftBoxProps {
     isMain?: boolean
     /** Callback when the box is clicked/opened */
     onOpen?: () => void
+    /** Callback when a 'shake' variant box is clicked */
+    onShake?: () => void
     /** Delay before the drop animation starts */
     delay?: number
     /** Sound file URL to play on open/shake */
@@ -46,6 +52,7 @@ export function GiftBox({
     ribbonColor = '#F1C40F',
     isMain = false,
     onOpen,
+    onShake,
     delay = 0,
     soundUrl = '/message.mp3',
     variant = 'open'
@@ -59,10 +66,17 @@ export function GiftBox({
 
     // Initialize audio on mount or soundUrl change
     useEffect(() => {
-        audioRef.current = new Audio(soundUrl)
-        audioRef.current.volume = 0.7
+        audioRef.current = createSound(soundUrl)
     }, [soundUrl])
 
+    /** Plays the gift sound from the start; the volume follows the audience picked since mount */
+    const playSound = () => {
+        if (!audioRef.current) return
+        audioRef.current.volume = audienceVolume(GIFT_SOUND_VOLUME)
+        audioRef.current.currentTime = 0
+        audioRef.current.play().catch(err => console.log('Audio play failed:', err))
+    }
+
     const handleClick = () => {
         if (!isDropped) return
 
@@ -75,11 +89,9 @@ export function GiftBox({
 
     const triggerShake = () => {
         setIsShaking(true)
-        if (audioRef.current) {
-            audioRef.current.currentTime = 0
-            audioRef.current.play().catch(err => console.log('Audio play failed:', err))
-        }
+        playSound()
         setTimeout(() => setIsShaking(false), 500) // Shake duration
+        if (onShake) onShake()
     }
 
     // Track if opening sequence has played to prevent echoes (since onOpen changes on render)
@@ -89,8 +101,7 @@ export function GiftBox({
     useEffect(() => {
         if (variant === 'open' && isOpen && audioRef.current && !hasPlayedRef.current) {
             hasPlayedRef.current = true
-            audioRef.current.currentTime = 0
-            audioRef.current.play().catch(err => console.log('Audio play failed:', err))
+            playSound()
             if (onOpen) onOpen()
         }
     }, [isOpen, onOpen, variant])
@@ -0,0 +1,44 @@
+import { LANGUAGES } from '../i18n';
+import { useI18n } from '../hooks/useI18n';
+import { CINEMATIC_SCRIPT } from '../content/cinematicScript';
+import { hasNarration } from '../content/script';
+
+/**
+ * LanguagePicker Component
+ *
+ * Language buttons plus the bilingual and voiceover toggles, shown on the splash screen's start gate.
+ * The voiceover toggle only appears for languages with recorded narration.
+ * Clicks stay inside the picker so choosing a language does not start the splash.
+ */
+export const LanguagePicker = () => {
+    const { locale, bilingual, voiceover, t, setLocale, setBilingual, setVoiceover } = useI18n();
+
+    return (
+        <div className="flex flex-col items-center gap-3" onClick={e => e.stopPropagation()}>
+            <p className="text-gray-400 text-xs uppercase tracking-widest">{t.languagePicker.prompt}</p>
+            <div className="flex gap-2">
+                {LANGUAGES.map(option => (
+                    <button
+                        key={option.locale}
+                        onClick={() => setLocale(option.locale)}
+                        className={`rounded-full px-5 py-2 text-sm font-bold border transition-colors ${option.locale === locale
+                            ? 'bg-yellow-400 border-yellow-400 text-black'
+                            : 'border-white/30 text-white hover:bg-white/10'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-2 text-gray-400 text-xs cursor-pointer">
+                <input type="checkbox" checked={bilingual} onChange={e => setBilingual(e.target.checked)} />
+                {t.languagePicker.bilingual}
+            </label>
+            {hasNarration(CINEMATIC_SCRIPT, locale) && (
+                <label className="flex items-center gap-2 text-gray-400 text-xs cursor-pointer">
+                    <input type="checkbox" checked={voiceover} onChange={e => setVoiceover(e.target.checked)} />
+                    {t.languagePicker.voiceover}
+                </label>
+            )}
+        </div>
+    );
+};
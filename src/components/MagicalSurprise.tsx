@@ -3,6 +3,8 @@ import { motion } from 'framer-motion-3d'
 import { Text, Sparkles, Float } from '@react-three/drei'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
+import { useI18n } from '../hooks/useI18n'
+import { SCENE_FONTS, formatMessage } from '../i18n'
 
 interface MagicalSurpriseProps {
     /** Whether the box is open and the surprise should be visible/animating */
@@ -79,14 +81,15 @@ function SpiralParticles({ active }: { active: boolean }) {
  * 
  * The content that flies out of the main gift box.
  * Features:
- * - Personalizable text (via URL param `?to=Name`).
+ * - Personalizable text (via URL param `?to=Name`), in the chosen language.
  * - Mini Santa character.
  * - Particle effects (Spirals and Sparkles).
  */
 export function MagicalSurprise({ isOpen }: MagicalSurpriseProps) {
     const params = new URLSearchParams(window.location.search)
     const name = params.get('to')
-    const text = name ? `Merry Christmas,\n${name}!` : "Merry\nChristmas!"
+    const { locale, t } = useI18n()
+    const text = name ? formatMessage(t.surprise.greetingTo, { name }) : t.surprise.greeting
 
     return (
         <group visible={isOpen}>
@@ -105,7 +108,7 @@ export function MagicalSurprise({ isOpen }: MagicalSurpriseProps) {
                         anchorY="middle"
                         outlineWidth={0.04}
                         outlineColor="#8B0000"
-                        font="https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff" // Default font available in drei often works, or use system font
+                        font={SCENE_FONTS[locale]}
                     >
                         {text}
                         <meshStandardMaterial emissive="#FFD700" emissiveIntensity={0.4} />
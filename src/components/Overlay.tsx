@@ -1,39 +1,56 @@
+import { AnimatedCounter } from './AnimatedCounter'
+import { useI18n } from '../hooks/useI18n'
+
 interface OverlayProps {
-    visits: number;
+    /** Unique visitors */
+    visitors: number;
+    /** Unique visitors who opened the gift */
     victims: number;
+    /** Total plays, including replays */
+    plays: number;
+    /** Name of the cohort the numbers belong to, when the link has one */
+    cohortLabel?: string;
 }
 
 /**
  * Overlay Component
  * 
  * Displays the "Hacker Dashboard" style statistics in the top right.
+ * Numbers are kept live by `useScamStats` and count up as they change.
  * Also shows the credits in the bottom right.
  */
-export function Overlay({ visits, victims }: OverlayProps) {
+export function Overlay({ visitors, victims, plays, cohortLabel }: OverlayProps) {
+    const { t } = useI18n()
+
     return (
         <div className="absolute top-0 left-0 w-full h-full pointer-events-none flex flex-col items-center justify-end pb-12 font-sans text-white/50">
             {/* Stats Display - Hacker/Terminal Style */}
             <div className="absolute top-6 right-6 flex flex-col items-end gap-1 pointer-events-auto">
+                {cohortLabel && (
+                    <span className="text-[9px] uppercase tracking-widest text-yellow-400/80 font-mono px-1">
+                        {cohortLabel}
+                    </span>
+                )}
                 <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded border border-white/10 shadow-lg">
                     <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
-                    <span className="text-[10px] uppercase tracking-widest text-gray-400 font-mono">Live Visitors</span>
-                    <span className="text-sm font-bold text-white font-mono min-w-[3ch] text-right">
-                        {visits > 0 ? visits.toLocaleString() : '...'}
-                    </span>
+                    <span className="text-[10px] uppercase tracking-widest text-gray-400 font-mono">{t.overlay.liveVisitors}</span>
+                    <AnimatedCounter value={visitors} className="text-sm font-bold text-white font-mono min-w-[3ch] text-right inline-block" />
                 </div>
                 <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded border border-red-500/20 shadow-lg">
                     <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
-                    <span className="text-[10px] uppercase tracking-widest text-red-400 font-mono">Scammed</span>
-                    <span className="text-sm font-bold text-red-500 font-mono min-w-[3ch] text-right">
-                        {victims > 0 ? victims.toLocaleString() : '...'}
-                    </span>
+                    <span className="text-[10px] uppercase tracking-widest text-red-400 font-mono">{t.overlay.scammed}</span>
+                    <AnimatedCounter value={victims} className="text-sm font-bold text-red-500 font-mono min-w-[3ch] text-right inline-block" />
+                </div>
+                <div className="flex items-center gap-2 px-3 py-0.5">
+                    <span className="text-[9px] uppercase tracking-widest text-gray-500 font-mono">{t.overlay.totalPlays}</span>
+                    <AnimatedCounter value={plays} className="text-xs font-bold text-gray-400 font-mono min-w-[3ch] text-right inline-block" />
                 </div>
             </div>
 
-            <p className="text-sm tracking-widest uppercase mb-4">Tap all gifts to open</p>
+            <p className="text-sm tracking-widest uppercase mb-4">{t.overlay.tapAllGifts}</p>
 
             <div className="absolute bottom-6 right-6 pointer-events-auto text-[10px] md:text-xs tracking-widest text-white/40 font-light mix-blend-screen">
-                <span className="opacity-70">The concept and developed by : </span>
+                <span className="opacity-70">{t.overlay.credits} </span>
                 <a
                     href="https://github.com/Thisal005"
                     target="_blank"
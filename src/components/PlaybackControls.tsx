@@ -0,0 +1,96 @@
+import type { MouseEvent } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+/** Speeds offered to the viewer */
+const RATES = [1, 1.5, 2];
+
+/** Within this many seconds of a chapter start, "previous" goes one chapter further back */
+const RESTART_GRACE = 1.5;
+
+interface PlaybackControlsProps {
+    time: number;
+    duration: number;
+    playing: boolean;
+    rate: number;
+    /** Start times of the chapters, ascending */
+    chapters: number[];
+    onPlay: () => void;
+    onPause: () => void;
+    onSeek: (time: number) => void;
+    onRate: (rate: number) => void;
+    onTranscript: () => void;
+}
+
+const formatTime = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * PlaybackControls Component
+ *
+ * Control bar for a timeline-driven cinematic: play/pause, previous / next chapter,
+ * speed, a transcript button, and a progress bar that seeks when clicked. Chapters are marked on the bar.
+ */
+export const PlaybackControls = ({ time, duration, playing, rate, chapters, onPlay, onPause, onSeek, onRate, onTranscript }: PlaybackControlsProps) => {
+    const { t } = useI18n();
+
+    const previousChapter = () => {
+        const current = [...chapters].reverse().find(start => start <= time) ?? 0;
+        const before = [...chapters].reverse().find(start => start < current) ?? 0;
+        onSeek(time - current > RESTART_GRACE ? current : before);
+    };
+
+    const nextChapter = () => {
+        const next = chapters.find(start => start > time + 0.05);
+        if (next !== undefined) onSeek(next);
+    };
+
+    const handleBarClick = (e: MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const buttonClass = 'px-3 py-1 rounded-full text-xs md:text-sm font-mono hover:bg-white/10 transition-colors';
+
+    return (
+        <div className="absolute bottom-0 left-0 w-full z-50 pointer-events-auto">
+            <div className="flex items-center justify-center gap-1 md:gap-2 pb-2 text-white/70">
+                <button onClick={previousChapter} className={buttonClass} aria-label={t.playback.previousChapter}>⏮</button>
+                <button onClick={playing ? onPause : onPlay} className={buttonClass} aria-label={playing ? t.playback.pause : t.playback.play}>
+                    {playing ? '❚❚' : '▶'}
+                </button>
+                <button onClick={nextChapter} className={buttonClass} aria-label={t.playback.nextChapter}>⏭</button>
+                <span className="text-[10px] md:text-xs font-mono text-white/40 mx-2">
+                    {formatTime(time)} / {formatTime(duration)}
+                </span>
+                {RATES.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onRate(option)}
+                        className={`${buttonClass} ${option === rate ? 'text-white bg-white/10' : ''}`}
+                    >
+                        {option}x
+                    </button>
+                ))}
+                <button onClick={onTranscript} className={buttonClass}>{t.playback.transcript}</button>
+            </div>
+
+            {/* Progress Bar: click to seek */}
+            <div className="relative h-3 cursor-pointer group flex items-end" onClick={handleBarClick}>
+                <div className="absolute bottom-0 left-0 w-full h-1 group-hover:h-2 bg-white/10 transition-all" />
+                {chapters.map(start => (
+                    <div
+                        key={start}
+                        className="absolute bottom-0 w-px h-1 group-hover:h-2 bg-white/30 transition-all"
+                        style={{ left: `${(start / duration) * 100}%` }}
+                    />
+                ))}
+                <div
+                    className="absolute bottom-0 left-0 h-1 group-hover:h-2 bg-red-600 transition-[height]"
+                    style={{ width: `${(time / duration) * 100}%` }}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { trackQuizAnswer } from '../stats';
+import { useI18n } from '../hooks/useI18n';
+import { formatMessage } from '../i18n';
+import { localize } from '../content/script';
+import { QUIZ } from '../content/quiz';
+
+interface QuizProps {
+    /** Receives the number of correct answers, or null when the quiz was skipped */
+    onFinish: (score: number | null) => void;
+}
+
+/**
+ * Quiz Component
+ *
+ * Multiple-choice and true/false questions about the tactics the cinematic just
+ * explained. Every answer is checked on the spot with a short explanation and
+ * reported to the stats backend; the score ends up on the roast card.
+ */
+export const Quiz = ({ onFinish }: QuizProps) => {
+    const { locale, t } = useI18n();
+    const [index, setIndex] = useState(0);
+    const [choice, setChoice] = useState<number | boolean | null>(null);
+    const [score, setScore] = useState(0);
+    const [done, setDone] = useState(false);
+
+    const question = QUIZ[index];
+    const answered = choice !== null;
+    const options: { value: number | boolean; label: string }[] = question.kind === 'choice'
+        ? question.options.map((option, i) => ({ value: i, label: localize(option, locale) }))
+        : [{ value: true, label: t.quiz.true }, { value: false, label: t.quiz.false }];
+
+    const answer = (value: number | boolean) => {
+        if (answered) return;
+        const correct = value === question.answer;
+        setChoice(value);
+        if (correct) setScore(score + 1);
+        trackQuizAnswer(question.id, correct);
+    };
+
+    const next = () => {
+        if (index === QUIZ.length - 1) {
+            setDone(true);
+            return;
+        }
+        setIndex(index + 1);
+        setChoice(null);
+    };
+
+    const optionClass = (value: number | boolean) => {
+        if (!answered) return 'border-white/30 hover:bg-white/10';
+        if (value === question.answer) return 'border-green-500 bg-green-600/30';
+        if (value === choice) return 'border-red-500 bg-red-600/30';
+        return 'border-white/10 opacity-50';
+    };
+
+    return (
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="quiz-title"
+            className="w-full max-w-xl mx-auto px-6 flex flex-col gap-6 text-white text-left"
+        >
+            <div className="flex items-center justify-between gap-4">
+                <h2 id="quiz-title" className="text-xl md:text-2xl font-bold">{t.quiz.title}</h2>
+                {!done && (
+                    <button onClick={() => onFinish(null)} className="text-xs text-gray-400 hover:text-white underline">
+                        {t.quiz.skip}
+                    </button>
+                )}
+            </div>
+
+            {done ? (
+                <>
+                    <p className="text-2xl md:text-3xl font-black text-yellow-400" role="status">
+                        {formatMessage(t.quiz.score, { score: String(score), total: String(QUIZ.length) })}
+                    </p>
+                    <button
+                        onClick={() => onFinish(score)}
+                        autoFocus
+                        className="self-center bg-red-600 text-white font-bold py-2 px-6 rounded-full hover:bg-red-700 transition-colors"
+                    >
+                        {t.quiz.toCard} ➡️
+                    </button>
+                </>
+            ) : (
+                <motion.div
+                    key={question.id}
+                    className="flex flex-col gap-4"
+                    initial={{ opacity: 0, x: 40 }}
+                    animate={{ opacity: 1, x: 0 }}
+                >
+                    <p className="text-xs uppercase tracking-widest text-gray-400">
+                        {formatMessage(t.quiz.progress, { number: String(index + 1), total: String(QUIZ.length) })}
+                    </p>
+                    <p className="text-lg md:text-xl font-bold">{localize(question.prompt, locale)}</p>
+
+                    <div className="flex flex-col gap-2">
+                        {options.map(option => (
+                            <button
+                                key={String(option.value)}
+                                onClick={() => answer(option.value)}
+                                disabled={answered}
+                                className={`rounded-lg border px-4 py-3 text-left transition-colors ${optionClass(option.value)}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Immediate feedback */}
+                    <div aria-live="polite">
+                        {answered && (
+                            <div className="flex flex-col gap-3">
+                                <p className={`font-bold ${choice === question.answer ? 'text-green-400' : 'text-red-400'}`}>
+                                    {choice === question.answer ? `✅ ${t.quiz.correct}` : `❌ ${t.quiz.wrong}`}
+                                </p>
+                                <p className="text-gray-300 text-sm">{localize(question.explanation, locale)}</p>
+                                <button
+                                    onClick={next}
+                                    autoFocus
+                                    className="self-center bg-white text-black font-bold py-2 px-6 rounded-full hover:bg-gray-200 transition-colors"
+                                >
+                                    {index === QUIZ.length - 1 ? t.quiz.results : t.quiz.next}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </motion.div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import type { RedFlagId } from '../content/redFlags';
+
+export interface RedFlagHuntState {
+    found: RedFlagId[];
+    onSpot: (flag: RedFlagId) => void;
+}
+
+/** Provided by RedFlagHunt; without it every RedFlag is invisible */
+export const RedFlagContext = createContext<RedFlagHuntState | null>(null);
+
+interface RedFlagProps {
+    id: RedFlagId;
+    children: ReactNode;
+}
+
+/**
+ * RedFlag Component
+ *
+ * Marks part of a scam screen as a red flag for the hunt. During normal play it
+ * renders its children unchanged. Inside the hunt it covers them with a tap target
+ * (disabled inputs swallow clicks) and circles them once found.
+ */
+export const RedFlag = ({ id, children }: RedFlagProps) => {
+    const hunt = useContext(RedFlagContext);
+    const { t } = useI18n();
+    if (!hunt) return <>{children}</>;
+
+    const found = hunt.found.includes(id);
+
+    return (
+        <div className="relative">
+            {children}
+            <button
+                onClick={e => {
+                    e.stopPropagation();
+                    hunt.onSpot(id);
+                }}
+                aria-label={found ? `🚩 ${t.hunt.flags[id].label}` : undefined}
+                aria-pressed={found}
+                className={`absolute -inset-1 z-30 rounded-lg ${found ? 'ring-4 ring-red-500 bg-red-500/10' : 'focus-visible:ring-2 focus-visible:ring-white'}`}
+            >
+                {found && <span className="absolute -top-3 -right-3 text-xl">🚩</span>}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { RedFlag, RedFlagContext } from './RedFlag';
+import { trackHunt } from '../stats';
+import { currentScenario } from '../scenarios';
+import { useI18n } from '../hooks/useI18n';
+import { MESSAGES, formatMessage } from '../i18n';
+import { huntScreens, type HuntScreenId, type RedFlagId } from '../content/redFlags';
+
+interface RedFlagHuntProps {
+    onClose: () => void;
+}
+
+/** Number frozen on the countdown screen */
+const FROZEN_COUNTDOWN = 3;
+
+/** This page load's hunt: the scenario's own bait, then the fake hack */
+const HUNT_SCREENS = huntScreens(currentScenario.redFlags);
+const HUNT_FLAGS = HUNT_SCREENS.flatMap(screen => screen.flags);
+
+/**
+ * One frozen scam screen: the bait the player saw, or the fake hack. The hack
+ * screens always use the standard (scary) copy, whatever the audience's tone:
+ * the threats are what players practise spotting.
+ */
+const HuntScreenView = ({ id }: { id: HuntScreenId }) => {
+    const { locale } = useI18n();
+    const { splash } = MESSAGES[locale];
+
+    switch (id) {
+        case 'bait': {
+            const { Bait, background } = currentScenario;
+            return (
+                <div className={`w-full py-8 flex justify-center ${background}`}>
+                    <Bait started hooked frozen />
+                </div>
+            );
+        }
+        case 'terminal':
+            return (
+                <div className="w-full py-10 px-6 bg-black flex flex-col items-center gap-8">
+                    <RedFlag id="fakeCrash">
+                        <h1 className="text-4xl md:text-6xl font-mono font-black text-white">{splash.systemFailure}</h1>
+                    </RedFlag>
+                    <RedFlag id="fakeTerminal">
+                        <div className="font-mono text-xs md:text-sm text-green-500 text-left space-y-1 p-2">
+                            {splash.terminalLines.map(line => <div key={line}>{`> ${line}`}</div>)}
+                        </div>
+                    </RedFlag>
+                </div>
+            );
+        case 'countdown':
+            return (
+                <div className="w-full py-10 px-6 bg-black flex flex-col items-center gap-6">
+                    <RedFlag id="countdown">
+                        <div className="text-[6rem] md:text-[10rem] leading-none font-black text-red-600 font-mono px-6">{FROZEN_COUNTDOWN}</div>
+                    </RedFlag>
+                    <RedFlag id="closeThreat">
+                        <p className="text-red-500 font-mono text-xs md:text-base text-center">{splash.closeWarning}</p>
+                    </RedFlag>
+                </div>
+            );
+    }
+};
+
+/**
+ * RedFlagHunt Component
+ *
+ * Practice after the lesson: the scenario's bait and the fake hack come back frozen, and the
+ * player taps every red flag they can spot. Each find is explained on the spot;
+ * taps on anything else count as misses. The score is reported once (see `trackHunt`).
+ */
+export const RedFlagHunt = ({ onClose }: RedFlagHuntProps) => {
+    const { t } = useI18n();
+    const [screenIndex, setScreenIndex] = useState(0);
+    const [found, setFound] = useState<RedFlagId[]>([]);
+    const [misses, setMisses] = useState(0);
+    const [finished, setFinished] = useState(false);
+
+    const screen = HUNT_SCREENS[screenIndex];
+    const isLastScreen = screenIndex === HUNT_SCREENS.length - 1;
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [onClose]);
+
+    const spot = (flag: RedFlagId) => {
+        if (!found.includes(flag)) setFound([...found, flag]);
+    };
+
+    const showScore = () => {
+        setFinished(true);
+        trackHunt(found, misses);
+    };
+
+    const flagExplanation = (flag: RedFlagId) => (
+        <li key={flag} className="border-t border-white/10 pt-3">
+            <p className="font-bold">
+                {found.includes(flag) ? '🚩' : `❌ ${t.hunt.missed}:`} {t.hunt.flags[flag].label}
+            </p>
+            <p className="text-gray-300 text-sm">{t.hunt.flags[flag].explanation}</p>
+        </li>
+    );
+
+    return (
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="hunt-title"
+            className="fixed inset-0 z-[110] bg-black/95 overflow-y-auto pointer-events-auto text-white"
+        >
+            <div className="max-w-2xl mx-auto px-4 py-8 flex flex-col gap-6 text-left">
+                <div>
+                    <h2 id="hunt-title" className="text-xl md:text-2xl font-bold">{t.hunt.title}</h2>
+                    {!finished && <p className="text-gray-400 text-sm mt-1">{t.hunt.intro}</p>}
+                </div>
+
+                {finished ? (
+                    <>
+                        <p className="text-2xl md:text-3xl font-black text-yellow-400" role="status">
+                            {formatMessage(t.hunt.score, { found: String(found.length), total: String(HUNT_FLAGS.length) })}
+                        </p>
+                        <p className="text-gray-400 text-sm">{formatMessage(t.hunt.misses, { misses: String(misses) })}</p>
+                        <ul className="flex flex-col gap-3">
+                            {HUNT_FLAGS.map(flagExplanation)}
+                        </ul>
+                        <button
+                            onClick={onClose}
+                            autoFocus
+                            className="self-center bg-white text-black font-bold py-2 px-6 rounded-full hover:bg-gray-200 transition-colors"
+                        >
+                            {t.hunt.done}
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <p className="text-xs uppercase tracking-widest text-gray-400" aria-live="polite">
+                            {formatMessage(t.hunt.progress, {
+                                screen: String(screenIndex + 1),
+                                screens: String(HUNT_SCREENS.length),
+                                found: String(screen.flags.filter(flag => found.includes(flag)).length),
+                                total: String(screen.flags.length),
+                            })}
+                            {' · '}
+                            {formatMessage(t.hunt.misses, { misses: String(misses) })}
+                        </p>
+
+                        {/* Taps that reach the frame missed every flag */}
+                        <div
+                            className="rounded-xl overflow-hidden border border-white/20 cursor-crosshair select-none"
+                            onClick={() => setMisses(misses + 1)}
+                        >
+                            <RedFlagContext.Provider value={{ found, onSpot: spot }}>
+                                <HuntScreenView key={screen.id} id={screen.id} />
+                            </RedFlagContext.Provider>
+                        </div>
+
+                        <ul className="flex flex-col gap-3" aria-live="polite">
+                            {screen.flags.filter(flag => found.includes(flag)).map(flagExplanation)}
+                        </ul>
+
+                        <button
+                            onClick={isLastScreen ? showScore : () => setScreenIndex(screenIndex + 1)}
+                            className="self-center bg-red-600 text-white font-bold py-2 px-6 rounded-full hover:bg-red-700 transition-colors"
+                        >
+                            {isLastScreen ? t.hunt.results : t.hunt.next}
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
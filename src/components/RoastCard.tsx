@@ -0,0 +1,82 @@
+import { useI18n } from '../hooks/useI18n';
+import { formatMessage } from '../i18n';
+import { currentScenario } from '../scenarios';
+import { campaignUrl, type CardTemplate } from '../share';
+import type { RoastCard as RoastScore, SessionBehaviour } from '../session';
+import { QUIZ } from '../content/quiz';
+
+interface RoastCardProps {
+    template: CardTemplate;
+    roast: RoastScore;
+    behaviour: SessionBehaviour;
+    extraGiftCount: number;
+    /** Correct quiz answers, null when the quiz was skipped */
+    quizScore: number | null;
+    /** QR code of the campaign link, left out until it is generated */
+    qrCode: string | null;
+}
+
+/**
+ * RoastCard Component
+ *
+ * The roast card laid out for one template, at the template's CSS size; the
+ * ending scene shows it scaled down as a preview and renders the image from a full-size copy.
+ * No letter-spacing on translated text: html2canvas then draws it glyph by glyph,
+ * which breaks the joined letters of Sinhala and Tamil.
+ */
+export const RoastCard = ({ template, roast, behaviour, extraGiftCount, quizScore, qrCode }: RoastCardProps) => {
+    const { locale, t } = useI18n();
+    const tall = template.height > template.width;
+
+    return (
+        <div
+            lang={locale}
+            style={{ width: template.width, height: template.height }}
+            className={`relative overflow-hidden flex flex-col items-center justify-center gap-6 p-6 font-sans ${template.theme === 'dark'
+                ? 'bg-black'
+                : 'bg-gradient-to-b from-red-700 to-red-950'}`}
+        >
+            <div className="bg-white p-4 rounded shadow-2xl rotate-[-2deg] w-full max-w-[360px] relative overflow-hidden">
+                <div className="absolute top-0 right-0 w-20 h-20 bg-red-500 transform rotate-45 translate-x-10 -translate-y-10" />
+                <div className="bg-gray-100 border border-gray-200 flex flex-col items-center justify-center text-center p-4 pt-8 relative mb-3">
+                    <div className="absolute top-2 left-2 text-xs text-gray-400 font-mono">{formatMessage(t.ending.caseNumber, { number: roast.caseNumber })}</div>
+                    <h2 className="text-2xl font-black text-red-600 mb-2 uppercase transform -rotate-2">{t.ending.cardClicked}</h2>
+                    <p className="text-sm text-gray-600 mb-2">{currentScenario.confession(t)}</p>
+                    <div className="text-4xl">{t.ending.cardBadge}</div>
+                    <div className="w-full h-1 bg-gray-300 my-3" />
+                    <div className="w-full flex justify-between text-xs font-bold text-gray-500 uppercase">
+                        <span>{t.ending.curiosity}: {roast.curiosity}%</span>
+                        <span>{t.ending.suspicion}: {roast.suspicion}%</span>
+                    </div>
+                    <ul className="w-full mt-3 text-left text-[11px] text-gray-500 font-mono">
+                        {behaviour.hesitation !== null && (
+                            <li>{formatMessage(t.ending.hesitated, { seconds: behaviour.hesitation.toFixed(1) })}</li>
+                        )}
+                        <li>{formatMessage(t.ending.giftsShaken, { shaken: String(behaviour.shakenGifts.length), total: String(extraGiftCount) })}</li>
+                        <li>{behaviour.triedToLeave ? t.ending.triedToLeave : t.ending.stayed}</li>
+                    </ul>
+                    {quizScore !== null && (
+                        <div className="mt-3 text-sm font-bold text-green-700">
+                            {formatMessage(t.quiz.cardScore, { score: String(quizScore), total: String(QUIZ.length) })}
+                        </div>
+                    )}
+                </div>
+                <div className="text-center font-handwriting text-xl text-gray-800 rotate-1">
+                    {t.ending.titles[roast.tier]}
+                </div>
+                <div className="flex items-end justify-between gap-3 mt-3">
+                    <div className="text-left text-[10px] text-gray-400 font-mono">
+                        <p className="text-gray-600 font-sans font-bold text-xs mb-1">{t.ending.scanToPlay}</p>
+                        <p>{campaignUrl.replace(/^https?:\/\//, '')}</p>
+                        <p>#ChristmasScamSim #SSCLC #LeoClub</p>
+                    </div>
+                    {qrCode && <img src={qrCode} alt="" className="w-16 h-16 shrink-0" />}
+                </div>
+            </div>
+
+            {tall && (
+                <p className="text-white text-xl font-bold text-center">{t.ending.awareness}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+import { useI18n } from '../hooks/useI18n';
+import { useSafeMode } from '../hooks/useSafeMode';
+
+/**
+ * SafeModeToggle Component
+ *
+ * Checkbox for the photosensitivity-safe mode on the splash screen's start gate.
+ * Starts out matching the system's reduce-motion setting.
+ * Clicks stay inside the toggle so changing it does not start the splash.
+ */
+export const SafeModeToggle = () => {
+    const { t } = useI18n();
+    const { safe, setSafe } = useSafeMode();
+
+    return (
+        <label
+            className="mt-3 flex items-center gap-2 text-gray-400 text-xs cursor-pointer"
+            onClick={e => e.stopPropagation()}
+        >
+            <input type="checkbox" checked={safe} onChange={e => setSafe(e.target.checked)} />
+            {t.splash.safeMode}
+        </label>
+    );
+};
@@ -1,120 +1,110 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ScamSpinner } from './ScamSpinner';
+import { LanguagePicker } from './LanguagePicker';
+import { AudiencePicker } from './AudiencePicker';
+import { SafeModeToggle } from './SafeModeToggle';
+import { EscapeHatch } from './EscapeHatch';
+import { trackStage } from '../stats';
+import { audienceVolume } from '../audience';
+import { createSound } from '../audio';
+import { currentScenario } from '../scenarios';
+import { markLeaveAttempt } from '../session';
+import { useTimeline } from '../hooks/useTimeline';
+import { useI18n } from '../hooks/useI18n';
+import { useSafeMode } from '../hooks/useSafeMode';
+import { SPLASH_DURATION, splashCues, splashStateAt, type SplashCue, type SoundCue } from '../content/splashCues';
+import { splashTactic, type ScamTactic } from '../content/tactics';
+
+interface SplashScreenProps {
+    onComplete: () => void;
+    /** The escape hatch was used; receives the tactic of the scene on screen */
+    onEscape: (tactic: ScamTactic) => void;
+}
+
+/**
+ * Plays a one-shot sound effect at the timeline's playback rate, as loud as the audience profile allows.
+ */
+const playSound = ({ src, volume }: SoundCue, rate: number) => {
+    const audio = createSound(src);
+    audio.volume = audienceVolume(volume);
+    audio.playbackRate = rate;
+    audio.play().catch(e => console.log(`Audio ${src} failed:`, e));
+    return audio;
+};
+
+/** The bait of this page load's scenario, followed by the shared fake hack */
+const SPLASH_CUES = splashCues(currentScenario.baitCues);
+const { Bait } = currentScenario;
 
 /**
  * SplashScreen Component
  * 
  * The first "page" of the application.
  * Simulation Flow:
- * 1. Scene 1: "Winning" the prize (spin animation).
+ * 1. Scene 1: The bait of the scenario (see `src/scenarios`), e.g. "winning" the data wheel.
  * 2. Scene 2: The Glitch (simulating a system break).
  * 3. Scene 3: Panic (red screen, "Hacked" message).
  * 4. Scene 4: Countdown (urgency to act).
  * 5. Completion: Passes control to the main 3D scene.
+ *
+ * The script itself (timings, sounds, stages) is data in `content/splashCues.ts`,
+ * played by the shared timeline engine, which pauses while the tab is hidden.
+ *
+ * Once started, the escape hatch can end it at any moment (see App).
+ *
+ * In safe mode (see `src/accessibility`) every flicker, shake and colour flash
+ * becomes a slow fade or drift; the scenes and their timing stay the same.
  */
-export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
-    const [scene, setScene] = useState(1);
-    const [countdown, setCountdown] = useState(5);
-    const [spinFinished, setSpinFinished] = useState(false);
+export const SplashScreen = ({ onComplete, onEscape }: SplashScreenProps) => {
     const [started, setStarted] = useState(false);
+    const { t } = useI18n();
+    const { safe } = useSafeMode();
 
     /**
-     * Main timeline orchestration.
-     * Transitions between scenes based on fixed timeouts to create a scripted experience.
+     * Side effects of the script: sounds and funnel tracking.
+     * Visual state is derived from the playback time below.
      */
-    useEffect(() => {
-        if (!started) return;
-
-        // Scene 1: The Perfect Win (Starts at 0s, Spin finishes at 5s)
-        const timer1 = setTimeout(() => {
-            setSpinFinished(true); // Triggers "Win" state in Spinner
-        }, 5000);
-
-        // Transition to Scene 2: Glitch Interruption (Total 8s)
-        const timerGlitch = setTimeout(() => {
-            setScene(2);
-        }, 8000);
-
-        // Transition to Scene 3: Panic Reveal (Total 11s)
-        const timer2 = setTimeout(() => {
-            setScene(3);
-        }, 11000);
-
-        // Transition to Scene 4: Countdown (Total 15s)
-        const timer3 = setTimeout(() => {
-            setScene(4);
-        }, 15000);
-
-        // Start real countdown logic (Total 20s)
-        const timer4 = setTimeout(() => {
-            setScene(5);
-        }, 20000);
+    const handleCue = (cue: SplashCue) => {
+        if (cue.type === 'sound') {
+            const audio = playSound(cue.sound, timeline.rate);
+            const next = cue.then;
+            if (next) audio.onended = () => playSound(next, timeline.rate);
+        }
+        if ((cue.type === 'scene' || cue.type === 'baitFinished') && cue.stage) {
+            trackStage(cue.stage);
+        }
+    };
 
+    const { time, play, timeline } = useTimeline({
+        cues: SPLASH_CUES,
+        duration: SPLASH_DURATION,
+        onCue: handleCue,
         // Completion / Release to main app
-        const timer5 = setTimeout(() => {
-            onComplete();
-        }, 20000);
+        onEnd: onComplete,
+    });
 
-        return () => {
-            clearTimeout(timer1);
-            clearTimeout(timerGlitch);
-            clearTimeout(timer2);
-            clearTimeout(timer3);
-            clearTimeout(timer4);
-            clearTimeout(timer5);
-        };
-    }, [onComplete, started]);
+    const { scene, baitFinished, countdown } = splashStateAt(SPLASH_CUES, time);
 
-    /**
-     * Audio cues triggered by scene changes.
-     */
+    // Switching away from the tab while the countdown threatens you counts as trying to leave
     useEffect(() => {
-        if (scene === 2) {
-            const audio = new Audio('/glitch.mp3');
-            audio.volume = 0.6;
-            audio.play().catch(e => console.log('Glitch audio failed:', e));
-        } else if (scene === 3) {
-            const audio = new Audio('/cat.mp3');
-            audio.volume = 0.6;
-            audio.play().catch(e => console.log('Cat audio failed:', e));
-        } else if (scene === 4) {
-            const audio = new Audio('/countdown.mp3');
-            audio.volume = 0.6;
-            audio.play().catch(e => console.log('Countdown audio failed:', e));
-
-            // Start visual countdown decrement
-            const interval = setInterval(() => {
-                setCountdown((prev) => {
-                    if (prev <= 1) return 0;
-                    return prev - 1;
-                });
-            }, 1000);
-            return () => clearInterval(interval);
-        }
+        if (scene !== 4) return;
+        const handleVisibility = () => {
+            if (document.hidden) markLeaveAttempt();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
     }, [scene]);
 
-    // Win sound effect
-    useEffect(() => {
-        if (spinFinished) {
-            const winAudio = new Audio('/win.mp3');
-            winAudio.volume = 0.5;
-            winAudio.play().catch(e => console.log('Audio play failed:', e));
-
-            // Play error sound right after win sound to bridge to the glitch
-            winAudio.onended = () => {
-                const errorAudio = new Audio('/error.mp3');
-                errorAudio.volume = 0.5;
-                errorAudio.play().catch(e => console.log('Error play failed:', e));
-            };
-        }
-    }, [spinFinished]);
+    const handleEscape = () => {
+        if (scene === 4) markLeaveAttempt();
+        onEscape(splashTactic(scene, currentScenario.tactic));
+    };
 
     const handleStart = () => {
-        const spinAudio = new Audio('/spin.mp3');
-        spinAudio.volume = 0.5;
-        spinAudio.play().catch(e => console.log('Audio play failed:', e));
         setStarted(true);
+        trackStage('splash_start');
+        // Opening cues (the bait's first sound) fire synchronously here, inside the click gesture
+        play();
     };
 
     return (
@@ -127,67 +117,29 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                     <motion.div
                         initial={{ scale: 0.8, opacity: 0 }}
                         animate={{ scale: 1, opacity: 1 }}
-                        transition={{ duration: 0.5, repeat: Infinity, repeatType: "reverse" }}
+                        transition={{ duration: safe ? 1.5 : 0.5, repeat: Infinity, repeatType: "reverse" }}
                         className="text-4xl font-bold tracking-widest uppercase border-4 border-yellow-400 px-8 py-4 rounded-xl text-yellow-400 hover:bg-yellow-400 hover:text-black transition-colors"
                     >
-                        Click to Reveal Prize
+                        {t.splash.clickToReveal}
                     </motion.div>
-                    <p className="mt-4 text-gray-400 text-sm">Enable sound for best experience</p>
+                    <p className="mt-4 mb-10 text-gray-400 text-sm">{t.splash.enableSound}</p>
+                    <LanguagePicker />
+                    <AudiencePicker />
+                    <SafeModeToggle />
                 </div>
             )}
+            {started && <EscapeHatch onEscape={handleEscape} />}
             <AnimatePresence mode="wait">
-                {/* SCENE 1: THE PERFECT WIN */}
+                {/* SCENE 1: THE BAIT */}
                 {scene === 1 && (
                     <motion.div
                         key="scene1"
                         initial={{ opacity: 0 }}
                         animate={{ opacity: 1 }}
                         exit={{ opacity: 0, transition: { duration: 0.1 } }}
-                        className="w-full h-full bg-gradient-to-b from-purple-900 to-indigo-900 flex flex-col items-center justify-center text-white relative"
+                        className={`w-full h-full ${currentScenario.background} flex flex-col items-center justify-center text-white relative`}
                     >
-                        {/* Confetti Rain */}
-                        <div className="absolute inset-0 overflow-hidden pointer-events-none">
-                            {[...Array(50)].map((_, i) => (
-                                <motion.div
-                                    key={i}
-                                    className="absolute w-2 h-4"
-                                    style={{
-                                        backgroundColor: ['#FFD700', '#FF0000', '#00FF00', '#00FFFF', '#FF00FF'][i % 5],
-                                        left: `${Math.random() * 100}%`,
-                                        top: -20
-                                    }}
-                                    animate={{
-                                        y: window.innerHeight + 20,
-                                        rotate: 360,
-                                        x: [-20, 20, -20]
-                                    }}
-                                    transition={{
-                                        duration: 2 + Math.random() * 3,
-                                        repeat: Infinity,
-                                        ease: "linear",
-                                        delay: Math.random() * 2
-                                    }}
-                                />
-                            ))}
-                        </div>
-
-                        {/* Sparkles */}
-                        <div className="absolute inset-0 pointer-events-none">
-                            {[...Array(20)].map((_, i) => (
-                                <motion.div
-                                    key={`sparkle-${i}`}
-                                    className="absolute w-1 h-1 bg-white rounded-full shadow-[0_0_10px_white]"
-                                    style={{ left: `${Math.random() * 100}%`, top: `${Math.random() * 100}%` }}
-                                    animate={{ scale: [0, 1, 0], opacity: [0, 1, 0] }}
-                                    transition={{ duration: 1 + Math.random(), repeat: Infinity, delay: Math.random() }}
-                                />
-                            ))}
-                        </div>
-
-                        <ScamSpinner
-                            started={started}
-                            spinFinished={spinFinished}
-                        />
+                        <Bait started={started} hooked={baitFinished} />
                     </motion.div>
                 )}
 
@@ -198,7 +150,7 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                         className="w-full h-full bg-black flex flex-col items-center justify-center relative overflow-hidden"
                     >
                         {/* Static Noise Overlay */}
-                        <div className="absolute inset-0 bg-[url('https://media.giphy.com/media/oEI9uBYSzLpBK/giphy.gif')] opacity-10 pointer-events-none mix-blend-screen bg-cover" />
+                        {!safe && <div className="absolute inset-0 bg-[url('https://media.giphy.com/media/oEI9uBYSzLpBK/giphy.gif')] opacity-10 pointer-events-none mix-blend-screen bg-cover" />}
 
                         {/* Scrolling Terminal Text Columns */}
                         <div className="absolute inset-0 flex justify-between opacity-40 pointer-events-none font-mono text-xs text-green-500 overflow-hidden">
@@ -208,26 +160,15 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                                         <motion.div
                                             key={`${colIndex}-${i}`}
                                             initial={{ opacity: 0, x: -10 }}
-                                            animate={{ opacity: [0, 1, 0.5, 1], x: 0 }}
-                                            transition={{
+                                            animate={safe ? { opacity: 1, x: 0 } : { opacity: [0, 1, 0.5, 1], x: 0 }}
+                                            transition={safe ? { duration: 1, delay: Math.random() * 2 } : {
                                                 duration: 0.1,
                                                 delay: Math.random() * 2,
                                                 repeat: Infinity,
                                                 repeatDelay: Math.random() * 0.5
                                             }}
                                         >
-                                            {`> ${[
-                                                'injecting payload...',
-                                                'bypassing firewall...',
-                                                'root access granted',
-                                                'decrypting user keys...',
-                                                'uploading private_data.zip',
-                                                'disabling antivirus...',
-                                                'connecting to botnet...',
-                                                'fetching gps location...',
-                                                'camera access: ENABLED',
-                                                'microphone: LISTENING'
-                                            ][Math.floor(Math.random() * 10)]}`}
+                                            {`> ${t.splash.terminalLines[Math.floor(Math.random() * t.splash.terminalLines.length)]}`}
                                         </motion.div>
                                     ))}
                                 </div>
@@ -238,39 +179,60 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                         <div className="relative z-20 mix-blend-hard-light">
                             <motion.h1
                                 className="text-4xl md:text-8xl font-mono font-black text-white relative"
-                                animate={{
+                                animate={safe ? { skewX: [0, 4, 0], color: ['#ffffff', '#ff6666'] } : {
                                     x: [-5, 5, -3, 3, 0],
                                     skewX: [0, 20, -20, 0],
                                     scaleY: [1, 1.2, 0.8, 1],
                                     color: ['#ffffff', '#ff0000', '#00ff00', '#0000ff', '#ffffff']
                                 }}
-                                transition={{ repeat: Infinity, duration: 0.08, repeatType: "mirror" }}
+                                transition={{ repeat: Infinity, duration: safe ? 2 : 0.08, repeatType: "mirror" }}
                             >
-                                SYSTEM FAILURE
+                                {t.splash.systemFailure}
                             </motion.h1>
 
-                            {/* RGB Split Layers */}
-                            <motion.div
-                                className="absolute top-0 left-0 w-full h-full text-red-500 text-4xl md:text-8xl font-mono font-black opacity-80 mix-blend-screen"
-                                animate={{ x: [-10, 10, -5], clipPath: ['inset(0 0 0 0)', 'inset(10% 0 30% 0)', 'inset(0 0 0 0)'] }}
-                                transition={{ repeat: Infinity, duration: 0.05 }}
-                            >
-                                SYSTEM FAILURE
-                            </motion.div>
-                            <motion.div
-                                className="absolute top-0 left-0 w-full h-full text-blue-500 text-4xl md:text-8xl font-mono font-black opacity-80 mix-blend-screen"
-                                animate={{ x: [10, -10, 5], clipPath: ['inset(0 0 0 0)', 'inset(30% 0 10% 0)', 'inset(0 0 0 0)'] }}
-                                transition={{ repeat: Infinity, duration: 0.05 }}
-                            >
-                                SYSTEM FAILURE
-                            </motion.div>
-                            <motion.div
-                                className="absolute top-0 left-0 w-full h-full text-green-500 text-4xl md:text-8xl font-mono font-black opacity-80 mix-blend-screen"
-                                animate={{ x: [-5, 5, -2], skewX: [10, -10] }}
-                                transition={{ repeat: Infinity, duration: 0.05 }}
-                            >
-                                SYSTEM FAILURE
-                            </motion.div>
+                            {/* RGB Split Layers: a slow drift of two faint copies in safe mode */}
+                            {safe ? (
+                                <>
+                                    <motion.div
+                                        className="absolute top-0 left-0 w-full h-full text-red-500 text-4xl md:text-8xl font-mono font-black opacity-30 mix-blend-screen"
+                                        animate={{ x: [-4, 4] }}
+                                        transition={{ repeat: Infinity, duration: 3, repeatType: "mirror", ease: "easeInOut" }}
+                                    >
+                                        {t.splash.systemFailure}
+                                    </motion.div>
+                                    <motion.div
+                                        className="absolute top-0 left-0 w-full h-full text-blue-500 text-4xl md:text-8xl font-mono font-black opacity-30 mix-blend-screen"
+                                        animate={{ x: [4, -4] }}
+                                        transition={{ repeat: Infinity, duration: 3, repeatType: "mirror", ease: "easeInOut" }}
+                                    >
+                                        {t.splash.systemFailure}
+                                    </motion.div>
+                                </>
+                            ) : (
+                                <>
+                                    <motion.div
+                                        className="absolute top-0 left-0 w-full h-full text-red-500 text-4xl md:text-8xl font-mono font-black opacity-80 mix-blend-screen"
+                                        animate={{ x: [-10, 10, -5], clipPath: ['inset(0 0 0 0)', 'inset(10% 0 30% 0)', 'inset(0 0 0 0)'] }}
+                                        transition={{ repeat: Infinity, duration: 0.05 }}
+                                    >
+                                        {t.splash.systemFailure}
+                                    </motion.div>
+                                    <motion.div
+                                        className="absolute top-0 left-0 w-full h-full text-blue-500 text-4xl md:text-8xl font-mono font-black opacity-80 mix-blend-screen"
+                                        animate={{ x: [10, -10, 5], clipPath: ['inset(0 0 0 0)', 'inset(30% 0 10% 0)', 'inset(0 0 0 0)'] }}
+                                        transition={{ repeat: Infinity, duration: 0.05 }}
+                                    >
+                                        {t.splash.systemFailure}
+                                    </motion.div>
+                                    <motion.div
+                                        className="absolute top-0 left-0 w-full h-full text-green-500 text-4xl md:text-8xl font-mono font-black opacity-80 mix-blend-screen"
+                                        animate={{ x: [-5, 5, -2], skewX: [10, -10] }}
+                                        transition={{ repeat: Infinity, duration: 0.05 }}
+                                    >
+                                        {t.splash.systemFailure}
+                                    </motion.div>
+                                </>
+                            )}
                         </div>
 
                         {/* Random Rectangles / Artifacts */}
@@ -286,11 +248,11 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                                         height: Math.random() * 5 + 'px',
                                     }}
                                     animate={{
-                                        opacity: [0, 1, 0],
+                                        opacity: safe ? [0, 0.25, 0] : [0, 1, 0],
                                         x: [0, Math.random() * 100 - 50]
                                     }}
                                     transition={{
-                                        duration: 0.1,
+                                        duration: safe ? 3 : 0.1,
                                         repeat: Infinity,
                                         delay: Math.random() * 2,
                                         repeatDelay: Math.random()
@@ -312,8 +274,8 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                         {/* Shaking Background */}
                         <motion.div
                             className="absolute inset-0 border-[20px] border-red-900 opacity-50"
-                            animate={{ x: [-5, 5, -5], y: [-5, 5, -5] }}
-                            transition={{ duration: 0.1, repeat: Infinity }}
+                            animate={safe ? { opacity: [0.3, 0.6, 0.3] } : { x: [-5, 5, -5], y: [-5, 5, -5] }}
+                            transition={{ duration: safe ? 2 : 0.1, repeat: Infinity }}
                         />
 
                         <div className="z-10 text-center space-y-4">
@@ -322,7 +284,7 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                                 animate={{ scale: 1, opacity: 1 }}
                                 className="text-red-600 text-4xl md:text-8xl font-black uppercase tracking-tighter"
                             >
-                                YOU FOOL.
+                                {t.splash.youFool}
                             </motion.h2>
                             <motion.h3
                                 initial={{ x: -100, opacity: 0 }}
@@ -330,15 +292,15 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                                 transition={{ delay: 0.3 }}
                                 className="text-white text-xl md:text-5xl font-bold bg-red-600 px-4 py-1"
                             >
-                                YOU CLICKED THE SCAM.
+                                {t.splash.youClickedTheScam}
                             </motion.h3>
                             <motion.p
                                 initial={{ opacity: 0 }}
-                                animate={{ opacity: [0, 1, 0, 1] }}
-                                transition={{ delay: 1, duration: 0.2, repeat: 4 }}
+                                animate={{ opacity: safe ? 1 : [0, 1, 0, 1] }}
+                                transition={{ delay: 1, duration: safe ? 0.8 : 0.2, repeat: safe ? 0 : 4 }}
                                 className="text-red-400 text-sm md:text-xl font-mono mt-8"
                             >
-                                YOUR DEVICE HAS BEEN HACKED
+                                {t.splash.deviceHacked}
                             </motion.p>
                         </div>
                     </motion.div>
@@ -362,27 +324,25 @@ export const SplashScreen = ({ onComplete }: { onComplete: () => void }) => {
                         >
                             {countdown}
                             {/* Glitch effect on number */}
-                            <motion.span
+                            {!safe && <motion.span
                                 className="absolute inset-0 text-white mix-blend-difference translate-x-1"
                                 animate={{ opacity: [0, 1, 0] }}
                                 transition={{ duration: 0.1, repeat: Infinity, repeatDelay: 0.2 }}
                             >
                                 {countdown}
-                            </motion.span>
+                            </motion.span>}
                         </motion.div>
 
                         <motion.div
                             className="absolute bottom-10 text-red-500 font-mono text-xs md:text-xl text-center px-4"
-                            animate={{ opacity: [1, 0.2, 1] }}
-                            transition={{ duration: 0.5, repeat: Infinity }}
+                            animate={{ opacity: safe ? [1, 0.6, 1] : [1, 0.2, 1] }}
+                            transition={{ duration: safe ? 2 : 0.5, repeat: Infinity }}
                         >
-                            IF YOU CLOSE THIS YOUR DATA WILL BE DELETED THEREFORE CONTINUE THE NEXT STEPS...
+                            {t.splash.closeWarning}
                         </motion.div>
                     </motion.div>
                 )}
             </AnimatePresence>
-
-            {/* SCENE 5: RELEASE (Overlay Fade Out handled by AnimatePresence on main app or just instant cut) */}
         </div>
     );
 };
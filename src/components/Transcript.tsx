@@ -0,0 +1,66 @@
+import { useEffect } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { segmentText, type ScriptSegment } from '../content/script';
+
+interface TranscriptProps {
+    segments: ScriptSegment[];
+    /** Closes the transcript and plays the cinematic from `time` */
+    onPlayFrom: (time: number) => void;
+    onClose: () => void;
+}
+
+/**
+ * Transcript Component
+ *
+ * The whole lesson as static, scrollable text: one section per slide, in the
+ * order and languages the cinematic plays them. Closes with Escape.
+ */
+export const Transcript = ({ segments, onPlayFrom, onClose }: TranscriptProps) => {
+    const { t } = useI18n();
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [onClose]);
+
+    return (
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="transcript-title"
+            className="absolute inset-0 z-[60] bg-black/95 overflow-y-auto pointer-events-auto"
+        >
+            <div className="max-w-2xl mx-auto px-6 py-10 flex flex-col gap-8 text-left">
+                <div className="flex items-center justify-between gap-4">
+                    <h2 id="transcript-title" className="text-xl md:text-2xl font-bold text-white">{t.transcript.title}</h2>
+                    <button
+                        onClick={onClose}
+                        autoFocus
+                        className="bg-white/10 hover:bg-white/20 rounded-full px-4 py-2 text-sm text-white"
+                    >
+                        {t.transcript.close}
+                    </button>
+                </div>
+
+                {segments.map(segment => (
+                    <section key={`${segment.slide.id}-${segment.locale}`} lang={segment.locale} className="border-t border-white/10 pt-4">
+                        {segmentText(segment).map((sentence, i) => (
+                            <p key={i} className={i === 0 ? 'text-lg text-white font-bold mb-2' : 'text-gray-300 mb-1'}>
+                                {sentence}
+                            </p>
+                        ))}
+                        <button
+                            onClick={() => onPlayFrom(segment.start)}
+                            className="mt-2 text-xs uppercase tracking-widest text-red-400 hover:text-red-300"
+                        >
+                            ▶ {t.transcript.playFromHere}
+                        </button>
+                    </section>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { RedFlag } from '../RedFlag';
+import { useI18n } from '../../hooks/useI18n';
+import type { Messages } from '../../i18n';
+import type { BaitProps } from '../../scenarios/types';
+import type { RedFlagId } from '../../content/redFlags';
+
+export interface MessageBaitTheme {
+    /** Sender avatar */
+    icon: string;
+    /** Tailwind background classes of the avatar, the scam page header and its button */
+    accent: string;
+    /** 'sms' shows a grey text bubble, 'chat' a green messenger bubble */
+    channel: 'sms' | 'chat';
+    /** Red flag of what the scam page demands (a fee, an OTP), for the red-flag hunt */
+    demandFlag: RedFlagId;
+}
+
+interface MessageBaitProps extends BaitProps {
+    copy: keyof Messages['baits'];
+    theme: MessageBaitTheme;
+}
+
+/**
+ * MessageBait Component
+ *
+ * A bait told through a phone: a message arrives from a trusted-looking sender,
+ * then (once hooked) the link's scam page slides up asking for details it must never get.
+ * The form is disabled; nothing can be typed or sent.
+ */
+export const MessageBait = ({ started, hooked, frozen = false, copy, theme }: MessageBaitProps) => {
+    const { t } = useI18n();
+    const bait = t.baits[copy];
+    const bubble = theme.channel === 'chat' ? 'bg-emerald-100 text-gray-900' : 'bg-gray-200 text-gray-900';
+
+    return (
+        <div className="z-10 w-full max-w-sm px-4">
+            <div className="relative h-[32rem] max-h-[80vh] rounded-[2.5rem] border-8 border-gray-900 bg-gray-50 shadow-2xl overflow-hidden flex flex-col">
+                {/* Sender */}
+                <div className="px-4 pt-6 pb-3 border-b border-gray-200 bg-white">
+                    <RedFlag id="spoofedSender">
+                        <div className="flex items-center gap-3">
+                            <div className={`w-9 h-9 rounded-full flex items-center justify-center text-lg ${theme.accent}`}>{theme.icon}</div>
+                            <div className="text-sm font-bold text-gray-900">{bait.sender}</div>
+                        </div>
+                    </RedFlag>
+                </div>
+
+                {/* The message */}
+                <div className="flex-1 p-4">
+                    {started && (
+                        <RedFlag id="lookalikeLink">
+                            <motion.div
+                                initial={frozen ? false : { opacity: 0, y: 20, scale: 0.9 }}
+                                animate={{ opacity: 1, y: 0, scale: 1 }}
+                                transition={{ delay: 0.5, type: "spring", stiffness: 260, damping: 20 }}
+                                className={`max-w-[85%] rounded-2xl rounded-tl-sm px-4 py-3 text-sm leading-snug ${bubble}`}
+                            >
+                                {bait.message}
+                            </motion.div>
+                        </RedFlag>
+                    )}
+                </div>
+
+                {/* The scam page behind the link */}
+                <AnimatePresence>
+                    {hooked && (
+                        <motion.div
+                            initial={frozen ? false : { y: '100%' }}
+                            animate={{ y: 0 }}
+                            transition={{ type: "spring", stiffness: 200, damping: 25 }}
+                            className="absolute inset-0 top-16 bg-white flex flex-col text-gray-800"
+                        >
+                            <div className={`px-4 py-3 text-white font-bold ${theme.accent}`}>{bait.pageTitle}</div>
+                            <div className="p-4 space-y-3">
+                                <RedFlag id={theme.demandFlag}>
+                                    <p className="text-sm text-gray-600">{bait.pageText}</p>
+                                </RedFlag>
+                                <RedFlag id="scamForm">
+                                    <div className="space-y-3">
+                                        {bait.fields.map(field => (
+                                            <input key={field} disabled placeholder={field} className="w-full p-2 border border-gray-300 rounded bg-gray-50 text-sm" />
+                                        ))}
+                                    </div>
+                                </RedFlag>
+                                <button className={`w-full text-white font-bold py-3 rounded shadow-lg flex items-center justify-center gap-2 ${theme.accent}`}>
+                                    {bait.button}
+                                    <motion.div
+                                        className="w-2 h-2 bg-white rounded-full"
+                                        animate={{ scale: [1, 1.5, 1] }}
+                                        transition={{ repeat: Infinity, duration: 1 }}
+                                    />
+                                </button>
+                            </div>
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+        </div>
+    );
+};
+
+/** A scenario's Bait: MessageBait bound to its copy and theme */
+export const messageBait = (copy: MessageBaitProps['copy'], theme: MessageBaitTheme) => {
+    const Bait = (props: BaitProps) => <MessageBait {...props} copy={copy} theme={theme} />;
+    Bait.displayName = `MessageBait(${copy})`;
+    return Bait;
+};
@@ -0,0 +1,72 @@
+import { motion } from 'framer-motion';
+import { ScamSpinner } from '../ScamSpinner';
+import type { SpinnerTheme } from '../../content/spinnerThemes';
+import type { BaitProps } from '../../scenarios/types';
+
+interface WheelBaitProps extends BaitProps {
+    theme: SpinnerTheme;
+}
+
+/**
+ * WheelBait Component
+ *
+ * A prize wheel bait: confetti rain, sparkles and a ScamSpinner in the given theme.
+ * Frozen (in the red-flag hunt) it shows the wheel alone.
+ */
+export const WheelBait = ({ started, hooked, frozen = false, theme }: WheelBaitProps) => frozen ? (
+    <ScamSpinner started={started} spinFinished={hooked} theme={theme} frozen />
+) : (
+    <>
+        {/* Confetti Rain */}
+        <div className="absolute inset-0 overflow-hidden pointer-events-none">
+            {[...Array(50)].map((_, i) => (
+                <motion.div
+                    key={i}
+                    className="absolute w-2 h-4"
+                    style={{
+                        backgroundColor: ['#FFD700', '#FF0000', '#00FF00', '#00FFFF', '#FF00FF'][i % 5],
+                        left: `${Math.random() * 100}%`,
+                        top: -20
+                    }}
+                    animate={{
+                        y: window.innerHeight + 20,
+                        rotate: 360,
+                        x: [-20, 20, -20]
+                    }}
+                    transition={{
+                        duration: 2 + Math.random() * 3,
+                        repeat: Infinity,
+                        ease: "linear",
+                        delay: Math.random() * 2
+                    }}
+                />
+            ))}
+        </div>
+
+        {/* Sparkles */}
+        <div className="absolute inset-0 pointer-events-none">
+            {[...Array(20)].map((_, i) => (
+                <motion.div
+                    key={`sparkle-${i}`}
+                    className="absolute w-1 h-1 bg-white rounded-full shadow-[0_0_10px_white]"
+                    style={{ left: `${Math.random() * 100}%`, top: `${Math.random() * 100}%` }}
+                    animate={{ scale: [0, 1, 0], opacity: [0, 1, 0] }}
+                    transition={{ duration: 1 + Math.random(), repeat: Infinity, delay: Math.random() }}
+                />
+            ))}
+        </div>
+
+        <ScamSpinner
+            started={started}
+            spinFinished={hooked}
+            theme={theme}
+        />
+    </>
+);
+
+/** A scenario's Bait: WheelBait bound to a spinner theme */
+export const wheelBait = (theme: SpinnerTheme) => {
+    const Bait = (props: BaitProps) => <WheelBait {...props} theme={theme} />;
+    Bait.displayName = 'WheelBait';
+    return Bait;
+};
@@ -0,0 +1,54 @@
+import type { LocalizedText } from './script';
+
+/**
+ * The knowledge check asked before the splash and again after the quiz, to
+ * measure what participants learned. Answers are never shown, so the first
+ * round does not teach. Interface text is in the `assessment` message section.
+ */
+
+export type AssessmentItemId = 'otpShare' | 'unenteredPrize' | 'closePage' | 'deadlines';
+
+export interface AssessmentItem {
+    id: AssessmentItemId;
+    statement: LocalizedText;
+    answer: boolean;
+}
+
+export const ASSESSMENT: AssessmentItem[] = [
+    {
+        id: 'otpShare',
+        statement: {
+            en: 'It is safe to tell an OTP to someone calling from your bank.',
+            si: 'ඔබගේ බැංකුවෙන් අමතන කෙනෙකුට OTP අංකයක් පැවසීම ආරක්ෂිතයි.',
+            ta: 'உங்கள் வங்கியிலிருந்து அழைப்பவரிடம் OTP ஐச் சொல்வது பாதுகாப்பானது.',
+        },
+        answer: false,
+    },
+    {
+        id: 'unenteredPrize',
+        statement: {
+            en: 'Winning a prize from a contest you never entered is most likely a scam.',
+            si: 'ඔබ කිසිදා සහභාගී නොවූ තරඟයකින් ත්‍යාගයක් දිනීම බොහෝ විට වංචාවකි.',
+            ta: 'நீங்கள் பங்கேற்காத போட்டியில் பரிசு வெல்வது பெரும்பாலும் மோசடியே.',
+        },
+        answer: true,
+    },
+    {
+        id: 'closePage',
+        statement: {
+            en: 'A web page can harm your phone if you close it too early.',
+            si: 'වෙබ් පිටුවක් ඉක්මනින් වසා දැමුවහොත් එය ඔබගේ දුරකථනයට හානි කළ හැක.',
+            ta: 'இணையப் பக்கத்தை சீக்கிரம் மூடினால் அது உங்கள் தொலைபேசிக்குத் தீங்கு விளைவிக்கலாம்.',
+        },
+        answer: false,
+    },
+    {
+        id: 'deadlines',
+        statement: {
+            en: 'Scammers use countdowns and deadlines to rush you.',
+            si: 'වංචාකරුවන් ඔබව ඉක්මන් කිරීමට ගණන් කිරීම් සහ කාල සීමා භාවිත කරයි.',
+            ta: 'மோசடிக்காரர்கள் உங்களை அவசரப்படுத்த கவுண்ட்டவுன்களையும் காலக்கெடுகளையும் பயன்படுத்துகிறார்கள்.',
+        },
+        answer: true,
+    },
+];
@@ -0,0 +1,317 @@
+import type { Script } from './script';
+
+const GLITCH = { src: '/glitch.mp3', volume: 0.6 };
+
+/**
+ * The educational cinematic shown after "See The Truth".
+ * Every slide has English, Sinhala and Tamil copy. It plays in the chosen language,
+ * or in two (chosen first) in bilingual mode; see `sequenceScript` for how the
+ * timings are derived.
+ * No slide has a `narration` recording yet, so the voiceover option stays hidden
+ * until files are added under `public/narration/`.
+ */
+export const CINEMATIC_SCRIPT: Script = {
+    tail: 2,
+    revealSound: { src: '/error-glitch.mp3', volume: 0.4 },
+    slides: [
+        {
+            id: 'intro',
+            layout: 'headline',
+            duration: 5,
+            motion: 'blur',
+            cues: [{ at: 0.5, sound: GLITCH }, { at: 4, sound: GLITCH }],
+            lines: [
+                {
+                    style: 'intro',
+                    text: {
+                        en: 'What you just experienced\nhas a real name.',
+                        si: 'ඔබ දැන් අත්විඳි දෙයට\nනියම නමක් තිබේ.',
+                        ta: 'நீங்கள் இப்போது அனுபவித்ததற்கு\nஒரு உண்மையான பெயர் உண்டு.',
+                    },
+                },
+            ],
+        },
+        {
+            id: 'clickbait',
+            layout: 'headline',
+            duration: 5,
+            motion: 'zoom',
+            lines: [
+                {
+                    style: 'alarm',
+                    text: {
+                        en: 'CLICKBAIT SCAMS',
+                        si: "'ක්ලික්බේට්' වංචා (CLICKBAIT SCAMS)",
+                        ta: "'கிளிக்பெய்ட்' மோசடிகள் (CLICKBAIT SCAMS)",
+                    },
+                },
+                {
+                    style: 'tags',
+                    delay: 0.5,
+                    text: {
+                        en: 'Phishing. · Giveaways. · Impersonation.',
+                        si: 'ෆිෂිං (Phishing). · තෑගි දීමනා (Giveaways). · පුද්ගල මාරු වෙස්ගැනීම (Impersonation).',
+                        ta: 'ஃபிஷிங் (Phishing). · பரிசு வழங்கல்கள் (Giveaways). · ஆள்மாறாட்டம் (Impersonation).',
+                    },
+                },
+            ],
+        },
+        {
+            id: 'ai',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                {
+                    style: 'title',
+                    text: {
+                        en: 'In 2025, scams don’t look fake anymore.',
+                        si: '2025 වසරේදී, මෙම වංචාවන් තවදුරටත් ව්‍යාජ ඒවා ලෙස පෙනෙන්නේ නැත.',
+                        ta: '2025 இல், மோசடிகள் இனி போலியாகத் தெரிவதில்லை.',
+                    },
+                },
+                {
+                    style: 'accent',
+                    delay: 1.5,
+                    text: {
+                        en: 'AI makes them convincing.',
+                        si: 'කෘතිම බුද්ධිය (AI) මඟින් ඒවා ඉතා විශ්වසනීය ලෙස නිර්මාණය කර ඇත.',
+                        ta: 'செயற்கை நுண்ணறிவு (AI) அவற்றை நம்பத்தகுந்ததாக்குகிறது.',
+                    },
+                },
+            ],
+        },
+        {
+            id: 'stats',
+            layout: 'statList',
+            duration: 6,
+            stats: [
+                {
+                    delay: 0.2,
+                    color: 'text-red-500',
+                    label: {
+                        en: 'AI-powered attacks increased by',
+                        si: 'කෘතිම බුද්ධිය (AI) ආධාරයෙන් සිදු කරන ප්‍රහාරයන්ගේ වර්ධනය',
+                        ta: 'AI மூலம் நடத்தப்படும் தாக்குதல்களின் அதிகரிப்பு',
+                    },
+                    value: { en: '1265%', si: '1265%', ta: '1265%' },
+                },
+                {
+                    delay: 1.5,
+                    color: 'text-white',
+                    label: {
+                        en: 'Most common cybercrime',
+                        si: 'වඩාත්ම සුලභ සයිබර් අපරාධය',
+                        ta: 'மிகவும் பொதுவான இணையக் குற்றம்',
+                    },
+                    value: { en: 'Phishing', si: 'Phishing', ta: 'Phishing' },
+                },
+                {
+                    delay: 2.8,
+                    color: 'text-yellow-400',
+                    label: {
+                        en: 'Average data breach cost',
+                        si: 'දත්ත අවභාවිතයක (Data breach) සාමාන්‍ය පිරිවැය',
+                        ta: 'தரவு மீறலின் (Data breach) சராசரி செலவு',
+                    },
+                    value: { en: '$4.88 million', si: '$4.88 million', ta: '$4.88 million' },
+                },
+                {
+                    delay: 4,
+                    color: 'text-yellow-400',
+                    label: {
+                        en: 'Total global cybercrime losses in 2024',
+                        si: '2024 වසරේ සමස්ත ගෝලීය සයිබර් අපරාධ පාඩුව',
+                        ta: '2024 இல் உலகளாவிய மொத்த இணையக் குற்ற இழப்புகள்',
+                    },
+                    value: { en: '$16.6 billion', si: '$16.6 billion', ta: '$16.6 billion' },
+                },
+            ],
+        },
+        {
+            id: 'social',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                { style: 'kicker', text: { en: 'Sri Lanka — 2025', si: 'ශ්‍රී ලංකාව — 2025', ta: 'இலங்கை — 2025' } },
+                {
+                    style: 'display',
+                    text: {
+                        en: '5,400+ Cybercrime Cases',
+                        si: 'සයිබර් අපරාධ සිදුවීම් 5,400+ කට වඩා වාර්තා වී ඇත.',
+                        ta: '5,400+ இணையக் குற்ற வழக்குகள்',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 1,
+                    text: {
+                        en: 'Most spread through social media.',
+                        si: 'මින් බොහොමයක් සමාජ මාධ්‍ය හරහා පැතිර යයි.',
+                        ta: 'பெரும்பாலானவை சமூக ஊடகங்கள் மூலம் பரவுகின்றன.',
+                    },
+                },
+            ],
+        },
+        {
+            id: 'hardest-truth',
+            layout: 'quote',
+            duration: 5,
+            lines: [
+                {
+                    style: 'alertKicker',
+                    text: { en: 'The Hardest Truth', si: 'කටුක ඇත්ත (The Hardest Truth)', ta: 'கசப்பான உண்மை (The Hardest Truth)' },
+                },
+                {
+                    style: 'title',
+                    text: {
+                        en: 'Most scams are never reported.',
+                        si: 'බොහෝ වංචාවන් කිසිදා වාර්තා නොවේ.',
+                        ta: 'பெரும்பாலான மோசடிகள் ஒருபோதும் புகாரளிக்கப்படுவதில்லை.',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 1.5,
+                    text: {
+                        en: "Not because people don't notice…",
+                        si: 'ඒ මිනිසුන්ට එය නොදැනෙන නිසා නොව...',
+                        ta: 'மக்கள் கவனிக்காததால் அல்ல…',
+                    },
+                },
+                {
+                    style: 'lead',
+                    delay: 2.5,
+                    text: {
+                        en: 'but because they notice **too late**.',
+                        si: 'ඔවුන්ට එය වැටහෙන විට **ප්‍රමාද වැඩි නිසාය.**',
+                        ta: 'அவர்கள் **மிகத் தாமதமாகக்** கவனிப்பதால்தான்.',
+                    },
+                },
+            ],
+        },
+        {
+            id: 'real-test',
+            layout: 'quote',
+            duration: 5,
+            lines: [
+                {
+                    style: 'lead',
+                    text: {
+                        en: 'Nothing here hacked your device.',
+                        si: 'මෙහි ඇති කිසිවක් ඔබගේ උපාංගයට (Device) හානි කළේ නැත.',
+                        ta: 'இங்கே எதுவும் உங்கள் சாதனத்தை (Device) ஹேக் செய்யவில்லை.',
+                    },
+                },
+                {
+                    style: 'title',
+                    delay: 1.5,
+                    text: { en: 'It tested something else.', si: 'එය පරීක්ෂා කළේ වෙනත් දෙයකි.', ta: 'அது வேறொன்றைச் சோதித்தது.' },
+                },
+            ],
+        },
+        {
+            id: 'human-trust',
+            layout: 'headline',
+            duration: 7,
+            motion: 'slow',
+            lines: [
+                { style: 'serif', delay: 0.5, text: { en: 'Human Trust.', si: 'මිනිස් විශ්වාසය.', ta: 'மனித நம்பிக்கை.' } },
+                {
+                    style: 'motto',
+                    delay: 2.5,
+                    text: {
+                        en: 'Stay curious. Stay skeptical.',
+                        si: 'විමසිලිමත් වන්න. සැක සහිත දේ ගැන අවදියෙන් සිටින්න.',
+                        ta: 'ஆர்வமாக இருங்கள். சந்தேகத்துடன் இருங்கள்.',
+                    },
+                },
+                {
+                    style: 'note',
+                    delay: 2.5,
+                    text: {
+                        en: 'Awareness is your real security.',
+                        si: 'දැනුවත්භාවය යනු ඔබේ සැබෑ ආරක්ෂාවයි.',
+                        ta: 'விழிப்புணர்வே உங்கள் உண்மையான பாதுகாப்பு.',
+                    },
+                },
+            ],
+        },
+    ],
+};
+
+/**
+ * The send-off after the roast card: a message from the club, credits and the logo.
+ * Always played in the chosen language only.
+ * The screen fades to black during the tail, then the experience restarts.
+ */
+export const SENDOFF_SCRIPT: Script = {
+    tail: 0.5,
+    slides: [
+        {
+            id: 'from',
+            layout: 'headline',
+            duration: 3,
+            motion: 'slow',
+            lines: [
+                {
+                    style: 'motto',
+                    text: {
+                        en: 'This message is from the Leo Club of St. Servatius College.',
+                        si: 'මෙම පණිවිඩය ශාන්ත සර්වේෂස් විද්‍යාලයීය ලියෝ සමාජය වෙතිනි.',
+                        ta: 'இந்தச் செய்தி புனித செர்வேஷியஸ் கல்லூரியின் லியோ கழகத்திடமிருந்து.',
+                    },
+                },
+            ],
+        },
+        {
+            id: 'stay-safe',
+            layout: 'headline',
+            duration: 3,
+            motion: 'rise',
+            lines: [
+                {
+                    style: 'display',
+                    text: {
+                        en: 'Pause. Verify. Protect.',
+                        si: 'නවතින්න. තහවුරු කරන්න. ආරක්ෂා වන්න.',
+                        ta: 'நிறுத்துங்கள். சரிபாருங்கள். பாதுகாத்திடுங்கள்.',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 0.5,
+                    text: { en: 'Digital awareness matters.', si: 'ඩිජිටල් දැනුවත්භාවය වැදගත් වේ.', ta: 'டிஜிட்டல் விழிப்புணர்வு முக்கியம்.' },
+                },
+            ],
+        },
+        {
+            id: 'credits',
+            layout: 'headline',
+            duration: 3,
+            motion: 'rise',
+            lines: [
+                { style: 'kicker', text: { en: 'Scripted & Developed by', si: 'පිටපත සහ සංවර්ධනය', ta: 'எழுத்தும் உருவாக்கமும்' } },
+                { style: 'credit', text: { en: 'Thisal Thiranjith', si: 'Thisal Thiranjith', ta: 'Thisal Thiranjith' } },
+            ],
+        },
+        {
+            id: 'merry-christmas',
+            layout: 'headline',
+            duration: 2.25,
+            motion: 'zoom',
+            lines: [
+                {
+                    style: 'festive',
+                    text: { en: 'Merry Christmas 🎄', si: 'සුබ නත්තලක් වේවා! 🎄', ta: 'இனிய கிறிஸ்துமஸ் வாழ்த்துக்கள்! 🎄' },
+                },
+            ],
+        },
+        {
+            id: 'logo',
+            layout: 'logo',
+            duration: 3.5,
+            src: '/logo.png',
+            alt: 'Leo Club of St. Servatius College',
+        },
+    ],
+};
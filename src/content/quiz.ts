@@ -0,0 +1,158 @@
+import type { LocalizedText } from './script';
+
+/**
+ * The quiz played after the cinematic, before the roast card.
+ * Questions keep their copy with them, like the cinematic script; the quiz's
+ * interface text is in the `quiz` section of the message catalog.
+ */
+
+export type QuizQuestionId =
+    | 'urgency'
+    | 'fakeBadge'
+    | 'otp'
+    | 'registrationFee'
+    | 'closePage'
+    | 'reporting';
+
+interface QuizQuestionBase {
+    id: QuizQuestionId;
+    prompt: LocalizedText;
+    /** Shown after answering, right or wrong */
+    explanation: LocalizedText;
+}
+
+export type QuizQuestion =
+    | QuizQuestionBase & { kind: 'choice'; options: LocalizedText[]; /** Index of the right option */ answer: number }
+    | QuizQuestionBase & { kind: 'trueFalse'; answer: boolean };
+
+export const QUIZ: QuizQuestion[] = [
+    {
+        id: 'urgency',
+        kind: 'choice',
+        prompt: {
+            en: 'A message says your account will be closed in 10 minutes unless you act now. What do you do?',
+            si: 'ඔබ දැන්ම ක්‍රියා නොකළහොත් විනාඩි 10කින් ඔබගේ ගිණුම වසා දමන බව පණිවිඩයක සඳහන් වේ. ඔබ කුමක් කරන්නද?',
+            ta: 'இப்போதே செயல்படாவிட்டால் 10 நிமிடங்களில் உங்கள் கணக்கு மூடப்படும் என்று ஒரு செய்தி கூறுகிறது. நீங்கள் என்ன செய்வீர்கள்?',
+        },
+        options: [
+            {
+                en: 'Click the link quickly, before time runs out',
+                si: 'කාලය අවසන් වීමට පෙර ඉක්මනින් සබැඳිය ක්ලික් කරන්න',
+                ta: 'நேரம் முடிவதற்குள் விரைவாக இணைப்பைக் கிளிக் செய்வேன்',
+            },
+            {
+                en: 'Stop, and check through the official app or phone number',
+                si: 'නවතින්න, නිල යෙදුම හෝ දුරකථන අංකය හරහා පරීක්ෂා කරන්න',
+                ta: 'நிறுத்தி, அதிகாரப்பூர்வ செயலி அல்லது தொலைபேசி எண் மூலம் சரிபார்ப்பேன்',
+            },
+            {
+                en: 'Reply and ask for more time',
+                si: 'පිළිතුරු යවා තවත් කාලය ඉල්ලන්න',
+                ta: 'பதில் அனுப்பி கூடுதல் நேரம் கேட்பேன்',
+            },
+        ],
+        answer: 1,
+        explanation: {
+            en: 'Deadlines are there to stop you thinking. A real company will still be there after you check.',
+            si: 'කාල සීමා ඇත්තේ ඔබව සිතීමෙන් වළක්වන්නටයි. ඔබ පරීක්ෂා කළ පසුවත් සැබෑ ආයතනයක් එහිම සිටිනු ඇත.',
+            ta: 'காலக்கெடுகள் உங்களைச் சிந்திக்க விடாமல் தடுப்பதற்கே. நீங்கள் சரிபார்த்த பிறகும் உண்மையான நிறுவனம் அங்கேயே இருக்கும்.',
+        },
+    },
+    {
+        id: 'fakeBadge',
+        kind: 'trueFalse',
+        prompt: {
+            en: 'A prize is real if the page shows a "Secure Verification" padlock.',
+            si: 'පිටුවේ "Secure Verification" අගුලක් පෙන්වයි නම් ත්‍යාගය සැබෑය.',
+            ta: 'பக்கத்தில் "Secure Verification" பூட்டு காட்டப்பட்டால் பரிசு உண்மையானது.',
+        },
+        answer: false,
+        explanation: {
+            en: 'Anyone can draw a padlock on a page. A prize for a contest you never entered is the real warning sign.',
+            si: 'ඕනෑම කෙනෙකුට පිටුවක අගුලක් ඇඳිය හැක. ඔබ කිසිදා සහභාගී නොවූ තරඟයක ත්‍යාගයක් යනු සැබෑ අනතුරු සංඥාවයි.',
+            ta: 'யார் வேண்டுமானாலும் பக்கத்தில் பூட்டை வரையலாம். நீங்கள் பங்கேற்காத போட்டியின் பரிசே உண்மையான அபாய அறிகுறி.',
+        },
+    },
+    {
+        id: 'otp',
+        kind: 'choice',
+        prompt: {
+            en: "A message with your bank's logo asks for the OTP you just received. Who can you safely give it to?",
+            si: 'ඔබගේ බැංකුවේ ලාංඡනය සහිත පණිවිඩයක් ඔබට දැන් ලැබුණු OTP අංකය ඉල්ලයි. ඔබට එය ආරක්ෂිතව දිය හැක්කේ කාටද?',
+            ta: 'உங்கள் வங்கியின் லோகோவுடன் வந்த செய்தி, நீங்கள் இப்போது பெற்ற OTP ஐக் கேட்கிறது. அதை யாரிடம் பாதுகாப்பாகக் கொடுக்கலாம்?',
+        },
+        options: [
+            { en: "The bank's staff", si: 'බැංකුවේ කාර්ය මණ්ඩලයට', ta: 'வங்கி ஊழியர்களிடம்' },
+            { en: 'Nobody', si: 'කිසිවෙකුට නැත', ta: 'யாரிடமும் இல்லை' },
+            {
+                en: 'Anyone who already knows my account number',
+                si: 'මගේ ගිණුම් අංකය දැනටමත් දන්නා ඕනෑම කෙනෙකුට',
+                ta: 'என் கணக்கு எண் ஏற்கனவே தெரிந்த எவரிடமும்',
+            },
+        ],
+        answer: 1,
+        explanation: {
+            en: 'An OTP is for you only. No bank, courier or official will ever ask for one; a familiar logo is easy to copy.',
+            si: 'OTP අංකයක් ඔබට පමණි. කිසිදු බැංකුවක්, කුරියර් සේවාවක් හෝ නිලධාරියෙක් එය කිසිදා ඉල්ලන්නේ නැත; හුරුපුරුදු ලාංඡනයක් පිටපත් කිරීම පහසුය.',
+            ta: 'OTP உங்களுக்கு மட்டுமே. எந்த வங்கியும், கூரியரும், அதிகாரியும் அதை ஒருபோதும் கேட்க மாட்டார்கள்; பழக்கமான லோகோவை நகலெடுப்பது எளிது.',
+        },
+    },
+    {
+        id: 'registrationFee',
+        kind: 'trueFalse',
+        prompt: {
+            en: 'A real employer may ask you to pay a registration fee before you start.',
+            si: 'සැබෑ සේවා යෝජකයෙක් වැඩ ආරම්භ කිරීමට පෙර ලියාපදිංචි ගාස්තුවක් ගෙවන ලෙස ඉල්ලිය හැක.',
+            ta: 'உண்மையான முதலாளி வேலையைத் தொடங்குவதற்கு முன் பதிவுக் கட்டணம் செலுத்தச் சொல்லலாம்.',
+        },
+        answer: false,
+        explanation: {
+            en: 'Real employers pay you. A fee to start is how job scams make their money.',
+            si: 'සැබෑ සේවා යෝජකයන් ඔබට ගෙවයි. ආරම්භ කිරීමට ගාස්තුවක් යනු රැකියා වංචා මුදල් උපයන ආකාරයයි.',
+            ta: 'உண்மையான முதலாளிகள் உங்களுக்குச் சம்பளம் தருவார்கள். தொடங்குவதற்கான கட்டணமே வேலை மோசடிகள் பணம் சம்பாதிக்கும் வழி.',
+        },
+    },
+    {
+        id: 'closePage',
+        kind: 'trueFalse',
+        prompt: {
+            en: 'Closing a page that says "Do not close this window" can damage your device.',
+            si: '"මෙම කවුළුව වසා නොදමන්න" යැයි පවසන පිටුවක් වසා දැමීමෙන් ඔබගේ උපාංගයට හානි විය හැක.',
+            ta: '"இந்தச் சாளரத்தை மூட வேண்டாம்" என்று சொல்லும் பக்கத்தை மூடினால் உங்கள் சாதனம் சேதமடையலாம்.',
+        },
+        answer: false,
+        explanation: {
+            en: 'Closing a suspicious page is always safe. Being told not to is the clearest sign that you should.',
+            si: 'සැක සහිත පිටුවක් වසා දැමීම සැමවිටම ආරක්ෂිතයි. එසේ නොකරන ලෙස කීම ඔබ එය කළ යුතු බවට පැහැදිලිම ලකුණයි.',
+            ta: 'சந்தேகமான பக்கத்தை மூடுவது எப்போதும் பாதுகாப்பானது. மூட வேண்டாம் என்று சொல்லப்படுவதே நீங்கள் மூட வேண்டும் என்பதற்கான தெளிவான அடையாளம்.',
+        },
+    },
+    {
+        id: 'reporting',
+        kind: 'choice',
+        prompt: {
+            en: 'You nearly fell for a scam. What is the best next step?',
+            si: 'ඔබ වංචාවකට හසු වීමට ආසන්න විය. ඊළඟට කළ යුතු හොඳම දේ කුමක්ද?',
+            ta: 'நீங்கள் ஒரு மோசடியில் கிட்டத்தட்ட சிக்கினீர்கள். அடுத்து செய்ய வேண்டிய சிறந்த விஷயம் என்ன?',
+        },
+        options: [
+            { en: "Keep quiet, it's embarrassing", si: 'නිහඬව සිටින්න, එය ලැජ්ජාවකි', ta: 'அமைதியாக இருப்பேன், அது வெட்கக்கேடானது' },
+            {
+                en: 'Report it, and warn friends and family',
+                si: 'එය වාර්තා කර, මිතුරන්ට සහ පවුලේ අයට අනතුරු අඟවන්න',
+                ta: 'புகாரளித்து, நண்பர்களையும் குடும்பத்தினரையும் எச்சரிப்பேன்',
+            },
+            {
+                en: 'Delete the message and forget about it',
+                si: 'පණිවිඩය මකා එය අමතක කරන්න',
+                ta: 'செய்தியை நீக்கிவிட்டு மறந்துவிடுவேன்',
+            },
+        ],
+        answer: 1,
+        explanation: {
+            en: 'Most scams are never reported. Reporting helps stop the scammer, and a warning protects the next person.',
+            si: 'බොහෝ වංචා කිසිදා වාර්තා නොවේ. වාර්තා කිරීම වංචාකරු නැවැත්වීමට උපකාරී වන අතර, අනතුරු ඇඟවීමක් ඊළඟ පුද්ගලයා ආරක්ෂා කරයි.',
+            ta: 'பெரும்பாலான மோசடிகள் ஒருபோதும் புகாரளிக்கப்படுவதில்லை. புகாரளிப்பது மோசடிக்காரரைத் தடுக்க உதவும், எச்சரிக்கை அடுத்தவரைப் பாதுகாக்கும்.',
+        },
+    },
+];
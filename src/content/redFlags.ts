@@ -0,0 +1,51 @@
+/**
+ * The red-flag hunt played after the roast card: a frozen copy of the
+ * scenario's bait and of the fake hack, with every giveaway a player should
+ * learn to spot. Each scenario lists the flags hidden in its bait
+ * (`ScenarioDefinition.redFlags`). Labels and explanations live in the `hunt`
+ * section of the message catalog.
+ */
+
+export type RedFlagId =
+    | 'unexpectedPrize'
+    | 'fakeBadge'
+    | 'personalData'
+    | 'spoofedSender'
+    | 'lookalikeLink'
+    | 'upfrontFee'
+    | 'otpRequest'
+    | 'scamForm'
+    | 'fakeCrash'
+    | 'fakeTerminal'
+    | 'countdown'
+    | 'closeThreat';
+
+export type HuntScreenId = 'bait' | 'terminal' | 'countdown';
+
+export interface HuntScreen {
+    id: HuntScreenId;
+    /** Every flag hidden on the screen, in reading order */
+    flags: RedFlagId[];
+}
+
+/** The fake hack every scenario shares */
+const HACK_SCREENS: HuntScreen[] = [
+    { id: 'terminal', flags: ['fakeCrash', 'fakeTerminal'] },
+    { id: 'countdown', flags: ['countdown', 'closeThreat'] },
+];
+
+/** The hunt of a scenario: its bait with `baitFlags`, then the fake hack */
+export const huntScreens = (baitFlags: RedFlagId[]): HuntScreen[] => [{ id: 'bait', flags: baitFlags }, ...HACK_SCREENS];
+
+/** Every flag of every scenario, in the order reports list them */
+export const RED_FLAGS: RedFlagId[] = [
+    'unexpectedPrize',
+    'fakeBadge',
+    'personalData',
+    'spoofedSender',
+    'lookalikeLink',
+    'upfrontFee',
+    'otpRequest',
+    'scamForm',
+    ...HACK_SCREENS.flatMap(screen => screen.flags),
+];
@@ -0,0 +1,196 @@
+import type { SoundCue } from './splashCues';
+import type { Locale } from '../i18n';
+
+/** A string in every language it has been translated to. English is always present */
+export type LocalizedText = { en: string } & Partial<Record<Locale, string>>;
+
+/** Picks the translation for `locale`, falling back to English */
+export const localize = (text: LocalizedText, locale: Locale) => text[locale] ?? text.en;
+
+/**
+ * Typography of a line. The renderer (CinematicSlide) maps each style to its
+ * classes, so scripts describe what a line is rather than how it is styled.
+ */
+export type TextStyle =
+    | 'intro'       // large, light, grey
+    | 'alarm'       // huge red glitching headline
+    | 'tags'        // row of short mono words, separated by " · "
+    | 'display'     // very large bold white
+    | 'title'       // large bold white
+    | 'accent'      // bold blue
+    | 'kicker'      // small spaced caps, grey
+    | 'alertKicker' // small spaced caps, red
+    | 'lead'        // large grey text
+    | 'body'        // grey text
+    | 'serif'       // huge amber serif
+    | 'motto'       // light white, spaced
+    | 'note'        // small grey footnote
+    | 'credit'      // medium white name
+    | 'festive';    // red italic serif
+
+export interface ScriptLine {
+    /** `\n` breaks the line, `**text**` is rendered as red emphasis */
+    text: LocalizedText;
+    style: TextStyle;
+    /** Seconds after the segment starts before the line appears */
+    delay?: number;
+}
+
+export interface ScriptStat {
+    label: LocalizedText;
+    value: LocalizedText;
+    /** Tailwind text colour of the value */
+    color: string;
+    delay: number;
+}
+
+export interface ScriptAudioCue {
+    /** Seconds after the segment starts */
+    at: number;
+    sound: SoundCue;
+}
+
+/** Entrance animation of a whole slide */
+export type SlideMotion = 'fade' | 'blur' | 'zoom' | 'rise' | 'slow';
+
+interface SlideBase {
+    id: string;
+    /** Seconds on screen, per language it is shown in */
+    duration: number;
+    motion?: SlideMotion;
+    /** Extra sounds, played in every language the slide is shown in */
+    cues?: ScriptAudioCue[];
+    /**
+     * Recorded voiceover per language (file URL, e.g. `/narration/si/intro.mp3`).
+     * Starts with the slide when voiceover is on; keep it shorter than `duration`.
+     */
+    narration?: Partial<Record<Locale, string>>;
+}
+
+export type ScriptSlide =
+    | SlideBase & { layout: 'headline'; lines: ScriptLine[] }
+    | SlideBase & { layout: 'quote'; lines: ScriptLine[] }
+    | SlideBase & { layout: 'statList'; stats: ScriptStat[] }
+    | SlideBase & { layout: 'logo'; src: string; alt: string };
+
+export interface Script {
+    slides: ScriptSlide[];
+    /** Seconds of empty screen after the last slide */
+    tail: number;
+    /** Played whenever lines or stats appear */
+    revealSound?: SoundCue;
+}
+
+/** A slide placed on the timeline in one language */
+export interface ScriptSegment {
+    slide: ScriptSlide;
+    locale: Locale;
+    start: number;
+    end: number;
+}
+
+/** Timeline cue of a script: a sound at an absolute time */
+export interface ScriptCue {
+    at: number;
+    sound: SoundCue;
+    /** Voiceover of the segment starting here, rather than a sound effect */
+    narration?: boolean;
+}
+
+export interface SequenceOptions {
+    /** Add the slides' voiceover tracks as narration cues */
+    narration?: boolean;
+    /** Ids of slides to leave out, e.g. for an audience profile */
+    omit?: string[];
+}
+
+const NARRATION_VOLUME = 1;
+
+/** Strips the `**emphasis**` markers and line breaks of a script string */
+const plainText = (text: string) => text.replace(/\*\*/g, '').replace(/\s*\n\s*/g, ' ');
+
+/** Every text of a slide, to find out which languages it was translated to */
+const slideTexts = (slide: ScriptSlide): LocalizedText[] => {
+    switch (slide.layout) {
+        case 'headline':
+        case 'quote':
+            return slide.lines.map(line => line.text);
+        case 'statList':
+            return slide.stats.flatMap(stat => [stat.label, stat.value]);
+        case 'logo':
+            return [];
+    }
+};
+
+/** Seconds into the slide at which something appears */
+const revealDelays = (slide: ScriptSlide) => {
+    switch (slide.layout) {
+        case 'headline':
+        case 'quote':
+            return [...new Set(slide.lines.map(line => line.delay ?? 0))];
+        case 'statList':
+            return slide.stats.map(stat => stat.delay);
+        case 'logo':
+            return [];
+    }
+};
+
+/**
+ * Lays the script out on a timeline.
+ *
+ * Slides play back to back, each once per locale in `locales` it is fully
+ * translated to (in that order); slides without translations play once in the
+ * first locale. Segment times, sound cues and the total duration all follow
+ * from the slide durations, so re-timing a slide is a single edit.
+ */
+export function sequenceScript(script: Script, locales: Locale[], { narration = false, omit = [] }: SequenceOptions = {}) {
+    const segments: ScriptSegment[] = [];
+    const cues: ScriptCue[] = [];
+    let time = 0;
+
+    for (const slide of script.slides.filter(slide => !omit.includes(slide.id))) {
+        const texts = slideTexts(slide);
+        const translated = locales.filter(locale => texts.length > 0 && texts.every(text => text[locale] !== undefined));
+
+        for (const locale of translated.length > 0 ? translated : locales.slice(0, 1)) {
+            segments.push({ slide, locale, start: time, end: time + slide.duration });
+
+            const { revealSound } = script;
+            if (revealSound) revealDelays(slide).forEach(delay => cues.push({ at: time + delay, sound: revealSound }));
+            slide.cues?.forEach(cue => cues.push({ at: time + cue.at, sound: cue.sound }));
+            const voiceover = slide.narration?.[locale];
+            if (narration && voiceover) cues.push({ at: time, sound: { src: voiceover, volume: NARRATION_VOLUME }, narration: true });
+
+            time += slide.duration;
+        }
+    }
+
+    return { segments, cues, duration: time + script.tail };
+}
+
+/** Whether any slide has a voiceover recorded in `locale` */
+export const hasNarration = (script: Script, locale: Locale) =>
+    script.slides.some(slide => slide.narration?.[locale] !== undefined);
+
+/**
+ * Everything a segment says, as plain sentences in its language.
+ * Used for screen-reader announcements and the transcript.
+ */
+export function segmentText({ slide, locale }: ScriptSegment): string[] {
+    switch (slide.layout) {
+        case 'headline':
+        case 'quote':
+            return slide.lines.flatMap(line => {
+                const text = localize(line.text, locale);
+                return line.style === 'tags' ? text.split(' · ') : [plainText(text)];
+            });
+        case 'statList':
+            return slide.stats.map(stat => `${localize(stat.label, locale)}: ${localize(stat.value, locale)}`);
+        case 'logo':
+            return [slide.alt];
+    }
+}
+
+/** The segment on screen at `time`, if any */
+export const segmentAt = (segments: ScriptSegment[], time: number) =>
+    segments.find(segment => time >= segment.start && time < segment.end);
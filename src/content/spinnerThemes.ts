@@ -0,0 +1,131 @@
+import type { Messages } from '../i18n';
+
+export interface SpinnerSegment {
+    label: string;
+    /** Fill colour */
+    color: string;
+    /** Label colour, white by default */
+    text?: string;
+}
+
+/** Localized text of a wheel and its form */
+export interface SpinnerCopy {
+    title: string;
+    /** Centre cap while spinning and once stopped */
+    spin: string;
+    win: string;
+    winTitle: string;
+    winSubtitle: string;
+    formTitle: string;
+    /** Placeholders of the disabled form */
+    fullName: string;
+    mobileNumber: string;
+    selectProvider: string;
+    verification: string;
+    button: string;
+}
+
+/**
+ * Look and copy of the ScamSpinner wheel.
+ * Class strings must be written out in full so Tailwind picks them up.
+ */
+export interface SpinnerTheme {
+    /** Clockwise from the pointer */
+    segments: SpinnerSegment[];
+    /** Index of the segment the wheel lands on; it is also drawn highlighted */
+    winner: number;
+    /** Tailwind classes of the parts the theme recolours */
+    classes: {
+        /** Text above the wheel */
+        title: string;
+        /** Border and gradient stops of the rim that holds the lights */
+        rim: string;
+        /** Border of the wheel itself */
+        wheelBorder: string;
+        /** Gradient stops of the center cap */
+        center: string;
+        /** Label on the center cap */
+        centerText: string;
+        /** The "you won" heading */
+        winText: string;
+        /** Gradient stops of the claim button */
+        button: string;
+    };
+    /** CSS colour of the sunburst and the center cap glow when the wheel stops */
+    glow: string;
+    /** Light bulbs around the rim */
+    lights: { count: number; className: string };
+    copy: (t: Messages) => SpinnerCopy;
+}
+
+/** The original "Spin to Win 50GB" data wheel */
+export const DATA_WHEEL_SPINNER: SpinnerTheme = {
+    segments: [
+        { label: '1GB', color: '#3B82F6' },
+        { label: '5GB', color: '#10B981' },
+        { label: '10GB', color: '#F59E0B' },
+        { label: '25GB', color: '#8B5CF6' },
+        { label: '50GB', color: '#DC2626', text: '#FFD700' },
+    ],
+    winner: 4,
+    classes: {
+        title: 'text-yellow-300',
+        rim: 'border-yellow-700 from-yellow-800 to-yellow-900',
+        wheelBorder: 'border-yellow-500',
+        center: 'from-yellow-300 via-yellow-500 to-yellow-700',
+        centerText: 'text-yellow-50',
+        winText: 'text-yellow-400',
+        button: 'from-green-500 to-emerald-600',
+    },
+    glow: 'rgba(255, 215, 0, 0.8)',
+    lights: { count: 12, className: 'bg-yellow-300' },
+    copy: t => ({
+        title: t.spinner.title,
+        spin: t.spinner.spin,
+        win: t.spinner.win,
+        winTitle: t.spinner.winTitle,
+        winSubtitle: t.spinner.winSubtitle,
+        formTitle: t.spinner.formTitle,
+        fullName: t.spinner.fullName,
+        mobileNumber: t.spinner.mobileNumber,
+        selectProvider: t.spinner.selectProvider,
+        verification: t.spinner.verification,
+        button: t.spinner.claimButton,
+    }),
+};
+
+/** A mobile operator's "member rewards" wheel: calm blues and tiers instead of gigabytes, to look official */
+export const LOYALTY_SPINNER: SpinnerTheme = {
+    segments: [
+        { label: 'BASIC', color: '#94a3b8' },
+        { label: 'PRO', color: '#60a5fa' },
+        { label: 'ELITE', color: '#818cf8' },
+        { label: 'ULTRA', color: '#c084fc' },
+        { label: 'MAX', color: '#2563eb', text: '#ffffff' },
+    ],
+    winner: 4,
+    classes: {
+        title: 'text-blue-300',
+        rim: 'border-slate-500 from-slate-700 to-slate-900',
+        wheelBorder: 'border-blue-500',
+        center: 'from-blue-300 via-blue-500 to-blue-700',
+        centerText: 'text-blue-50',
+        winText: 'text-blue-400',
+        button: 'from-blue-500 to-indigo-600',
+    },
+    glow: 'rgba(59, 130, 246, 0.8)',
+    lights: { count: 12, className: 'bg-blue-300' },
+    copy: t => ({
+        title: t.spinner.loyalty.title,
+        spin: t.spinner.spin,
+        win: t.spinner.win,
+        winTitle: t.spinner.loyalty.winTitle,
+        winSubtitle: t.spinner.loyalty.winSubtitle,
+        formTitle: t.spinner.loyalty.formTitle,
+        fullName: t.spinner.fullName,
+        mobileNumber: t.spinner.mobileNumber,
+        selectProvider: t.spinner.selectProvider,
+        verification: t.spinner.loyalty.verification,
+        button: t.spinner.loyalty.button,
+    }),
+};
@@ -0,0 +1,73 @@
+import type { FunnelStage } from '../stats';
+
+/** Scenes of the splash sequence, see SplashScreen */
+export type SplashScene = 1 | 2 | 3 | 4;
+
+export interface SoundCue {
+    src: string;
+    volume: number;
+}
+
+/** Everything that happens during the splash sequence, in seconds from "Click to Reveal Prize" */
+export type SplashCue =
+    | { at: number; type: 'sound'; sound: SoundCue; /** Played once the first sound has ended */ then?: SoundCue }
+    /** The bait's hook lands (the wheel stops, the scam page opens) */
+    | { at: number; type: 'baitFinished'; stage: FunnelStage }
+    | { at: number; type: 'scene'; scene: SplashScene; stage?: FunnelStage }
+    | { at: number; type: 'countdown'; value: number };
+
+/** Total length; the main 3D scene takes over afterwards */
+export const SPLASH_DURATION = 20;
+
+/** Scene 1 belongs to the scenario's bait, which has this long */
+export const BAIT_DURATION = 8;
+
+/**
+ * The fake hack every scenario ends with.
+ * 2. 8s   Glitch interruption
+ * 3. 11s  Panic reveal
+ * 4. 15s  Countdown 5..1, released to the main scene at 20s
+ */
+const HACK_CUES: SplashCue[] = [
+    // Scene 2: Glitch Interruption
+    { at: 8, type: 'scene', scene: 2, stage: 'glitch' },
+    { at: 8, type: 'sound', sound: { src: '/glitch.mp3', volume: 0.6 } },
+
+    // Scene 3: Panic Reveal
+    { at: 11, type: 'scene', scene: 3, stage: 'panic' },
+    { at: 11, type: 'sound', sound: { src: '/cat.mp3', volume: 0.6 } },
+
+    // Scene 4: Countdown
+    { at: 15, type: 'scene', scene: 4, stage: 'countdown' },
+    { at: 15, type: 'sound', sound: { src: '/countdown.mp3', volume: 0.6 } },
+    { at: 15, type: 'countdown', value: 5 },
+    { at: 16, type: 'countdown', value: 4 },
+    { at: 17, type: 'countdown', value: 3 },
+    { at: 18, type: 'countdown', value: 2 },
+    { at: 19, type: 'countdown', value: 1 },
+];
+
+/**
+ * The splash script: the scenario's bait cues (scene 1, before BAIT_DURATION)
+ * followed by the fake hack.
+ */
+export const splashCues = (baitCues: SplashCue[]): SplashCue[] => [...baitCues, ...HACK_CUES];
+
+/**
+ * Visual state of the splash at `time`, derived from the cues before it.
+ * Deriving (instead of storing) keeps seeking and pausing consistent.
+ */
+export function splashStateAt(cues: SplashCue[], time: number) {
+    let scene: SplashScene = 1;
+    let baitFinished = false;
+    let countdown = 5;
+
+    for (const cue of cues) {
+        if (cue.at > time) continue;
+        if (cue.type === 'scene') scene = cue.scene;
+        if (cue.type === 'baitFinished') baitFinished = true;
+        if (cue.type === 'countdown') countdown = cue.value;
+    }
+
+    return { scene, baitFinished, countdown };
+}
@@ -0,0 +1,24 @@
+import type { SplashScene } from './splashCues';
+
+/** Manipulation tactics the experience demonstrates, explained on the aftercare screen */
+export type ScamTactic =
+    | 'prize'
+    | 'fakeFee'
+    | 'otp'
+    | 'jobOffer'
+    | 'brandImpersonation'
+    | 'fakeError'
+    | 'fear'
+    | 'urgency'
+    | 'freeGift';
+
+/** Tactic on show in each scene of the fake hack; scene 1 is the scenario's bait */
+const HACK_TACTICS: Record<Exclude<SplashScene, 1>, ScamTactic> = {
+    2: 'fakeError',
+    3: 'fear',
+    4: 'urgency',
+};
+
+/** Tactic on screen in a splash scene, given the tactic of the scenario's bait */
+export const splashTactic = (scene: SplashScene, baitTactic: ScamTactic) =>
+    scene === 1 ? baitTactic : HACK_TACTICS[scene];
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { getAudienceProfile, setAudience, subscribeAudience } from '../audience';
+
+/**
+ * Custom hook for the audience profile (see `src/audience`).
+ * Every component using it re-renders when the audience changes.
+ *
+ * @returns {Object} An object containing:
+ * - profile: The chosen audience's profile (tone, sound volume, omitted slides).
+ * - setAudience: Changes the audience (remembered on this device).
+ */
+export function useAudience() {
+    const profile = useSyncExternalStore(subscribeAudience, getAudienceProfile);
+    return { profile, setAudience };
+}
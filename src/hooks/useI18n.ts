@@ -0,0 +1,28 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { MESSAGES, getLanguageSettings, subscribeLanguage, updateLanguageSettings, withTone, type Locale } from '../i18n';
+import { getAudienceProfile, subscribeAudience } from '../audience';
+
+/**
+ * Custom hook for the chosen language (see `src/i18n`).
+ * Every component using it re-renders when the language or the audience changes.
+ *
+ * @returns {Object} An object containing:
+ * - locale: The chosen language.
+ * - bilingual: Whether the ending cinematic plays in both languages.
+ * - voiceover: Whether the cinematic plays its recorded narration.
+ * - t: The message catalog of the chosen language, in the audience's tone.
+ * - setLocale, setBilingual, setVoiceover: Change the settings (remembered on this device).
+ */
+export function useI18n() {
+    const settings = useSyncExternalStore(subscribeLanguage, getLanguageSettings);
+    const { tone } = useSyncExternalStore(subscribeAudience, getAudienceProfile);
+    const t = useMemo(() => withTone(MESSAGES[settings.locale], tone), [settings.locale, tone]);
+
+    return {
+        ...settings,
+        t,
+        setLocale: (locale: Locale) => updateLanguageSettings({ locale }),
+        setBilingual: (bilingual: boolean) => updateLanguageSettings({ bilingual }),
+        setVoiceover: (voiceover: boolean) => updateLanguageSettings({ voiceover }),
+    };
+}
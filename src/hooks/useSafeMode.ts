@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import { getSafeMode, setSafeModePreference, subscribeSafeMode } from '../accessibility';
+
+/**
+ * Custom hook for the photosensitivity-safe mode (see `src/accessibility`).
+ * Every component using it re-renders when the mode changes.
+ *
+ * @returns {Object} An object containing:
+ * - safe: Whether slow, non-flashing effects should be used.
+ * - preference: `auto` (follows the system's reduce-motion setting), `on` or `off`.
+ * - setSafe: Turns the mode on or off (remembered on this device).
+ */
+export function useSafeMode() {
+    const { enabled, preference } = useSyncExternalStore(subscribeSafeMode, getSafeMode);
+
+    return {
+        safe: enabled,
+        preference,
+        setSafe: (safe: boolean) => setSafeModePreference(safe ? 'on' : 'off'),
+    };
+}
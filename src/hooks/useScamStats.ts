@@ -1,74 +1,167 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { statsBackend, cohortOnlyBackend, currentCohort, STAT_KEYS, claimFirst } from '../stats';
 
-const API_BASE = 'https://api.counterapi.dev/v1/christmas-scam-leoclub';
+/** Poll interval while the tab is visible and the backend has no push */
+const POLL_INTERVAL_MS = 10_000;
+/** Safety-net poll interval when push updates are available */
+const PUSH_FALLBACK_INTERVAL_MS = 60_000;
+/** Upper bound of the backoff while the tab is hidden */
+const HIDDEN_MAX_INTERVAL_MS = 5 * 60_000;
+
+const LIVE_KEYS = [STAT_KEYS.visitors, STAT_KEYS.victims, STAT_KEYS.plays];
+
+/**
+ * Counts a unique milestone (`visit`, `victim`) on `key`: once per device
+ * overall, and once per device in the link's cohort, so a device first seen in
+ * another cohort still counts in this one without counting twice overall.
+ * Resolves with the counter's value, or reads it when the device already counted.
+ */
+async function countUnique(milestone: string, key: string) {
+    const first = claimFirst(milestone);
+    const firstInCohort = currentCohort ? claimFirst(`${milestone}--${currentCohort.id}`) : false;
+    if (first) return statsBackend.increment(key);
+    if (firstInCohort && cohortOnlyBackend) return cohortOnlyBackend.increment(key);
+    return statsBackend.read(key);
+}
 
 /**
  * Custom hook to manage scam statistics (visits and victims).
- * Interacts with a simple counter API to track and retrieve stats.
+ * Talks to whichever stats backend was configured at build time
+ * (see `src/stats/backend.ts`).
+ *
+ * Replays are deduplicated with an anonymous on-device identity
+ * (see `src/stats/identity.ts`): unique visitors and unique victims are only
+ * counted the first time (overall and per cohort), while `plays` counts every run of the experience.
+ *
+ * The numbers stay live: they are pushed by backends that support it and
+ * polled otherwise. Polling backs off while the tab is hidden.
  * 
  * @returns {Object} An object containing:
- * - visits: Number of site visits.
- * - victims: Number of users who "fell" for the scam (clicked the gift).
- * - incrementVisit: Function to increment the visit counter.
- * - incrementVictim: Function to increment the victim counter.
+ * - visitors: Number of unique visitors.
+ * - victims: Number of unique visitors who "fell" for the scam (clicked the gift).
+ * - plays: Total number of plays, including replays.
+ * - incrementVisit: Function to record a play (and a new visitor if needed).
+ * - incrementVictim: Function to record a gift click (and a new victim if needed).
  * - fetchStats: Function to fetch current statistics without incrementing.
  */
 export function useScamStats() {
-    const [visits, setVisits] = useState<number>(0);
+    const [visitors, setVisitors] = useState<number>(0);
     const [victims, setVictims] = useState<number>(0);
+    const [plays, setPlays] = useState<number>(0);
 
     /**
-     * Increments the visit count on the remote API.
+     * Applies fresh counter values. Counters only ever grow, so a slow response
+     * that arrives after a newer one can never move the display backwards.
+     */
+    const applyCounts = useCallback((counts: Record<string, number | null>) => {
+        const keep = (next: number | null | undefined) => (prev: number) => Math.max(prev, next ?? 0);
+        if (STAT_KEYS.visitors in counts) setVisitors(keep(counts[STAT_KEYS.visitors]));
+        if (STAT_KEYS.victims in counts) setVictims(keep(counts[STAT_KEYS.victims]));
+        if (STAT_KEYS.plays in counts) setPlays(keep(counts[STAT_KEYS.plays]));
+    }, []);
+
+    /**
+     * Records a play on the stats backend.
      * Should be called once when the app loads.
      */
     const incrementVisit = async () => {
         try {
-            const res = await fetch(`${API_BASE}/visits/up`);
-            const data = await res.json();
-            if (data.count) setVisits(data.count);
+            const playCount = await statsBackend.increment(STAT_KEYS.plays);
+            applyCounts({ [STAT_KEYS.plays]: playCount });
+
+            // Returning visitors only read the unique counter
+            const visitorCount = await countUnique('visit', STAT_KEYS.visitors);
+            applyCounts({ [STAT_KEYS.visitors]: visitorCount });
         } catch (e) {
             console.error("Failed to track visit", e);
         }
     };
 
     /**
-     * Increments the victim count on the remote API.
+     * Records a gift click on the stats backend.
      * Should be called when the user clicks the main gift box.
      */
     const incrementVictim = async () => {
         try {
-            const res = await fetch(`${API_BASE}/victims/up`);
-            const data = await res.json();
-            if (data.count) setVictims(data.count);
+            await statsBackend.increment(STAT_KEYS.victimPlays);
+
+            const victimCount = await countUnique('victim', STAT_KEYS.victims);
+            applyCounts({ [STAT_KEYS.victims]: victimCount });
         } catch (e) {
             console.error("Failed to track victim", e);
         }
     };
 
     /**
-     * Fetches the current stats for visits and victims.
+     * Fetches the current unique visitors, unique victims and plays.
      * Useful for periodic updates or initial load if not incrementing.
      */
-    const fetchStats = async () => {
+    const fetchStats = useCallback(async () => {
         try {
-            // Parallel fetch for efficiency
-            const [visitRes, victimRes] = await Promise.all([
-                fetch(`${API_BASE}/visits`),
-                fetch(`${API_BASE}/victims`)
-            ]);
-
-            const visitData = await visitRes.json();
-            const victimData = await victimRes.json();
-
-            // Handle cases where the counter might not exist yet 
-            // (defaults to 0 or null from some APIs, but counterapi usually returns error or object)
-            if (visitData.count) setVisits(visitData.count);
-            if (victimData.count) setVictims(victimData.count);
-
+            applyCounts(await statsBackend.readMany(LIVE_KEYS));
         } catch (e) {
             console.error("Failed to fetch stats", e);
         }
-    };
+    }, [applyCounts]);
+
+    /**
+     * Keeps the numbers live.
+     * Push subscriptions are closed while the tab is hidden; polling then
+     * doubles its interval on every tick, and both resume right away once the
+     * tab is visible again. Only one poll runs at a time, and none is
+     * scheduled after unmount.
+     */
+    useEffect(() => {
+        const canPush = Boolean(statsBackend.subscribe);
+        const baseInterval = canPush ? PUSH_FALLBACK_INTERVAL_MS : POLL_INTERVAL_MS;
+        let interval = baseInterval;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let unsubscribe: (() => void) | undefined;
+        let polling = false;
+        let cancelled = false;
+
+        const subscribe = () => {
+            unsubscribe = statsBackend.subscribe?.(LIVE_KEYS, (key, count) => applyCounts({ [key]: count }));
+        };
+
+        const tick = async () => {
+            // A poll still in flight schedules the next one itself
+            if (polling) return;
+            polling = true;
+            try {
+                await fetchStats();
+            } finally {
+                polling = false;
+            }
+            if (cancelled) return;
+            interval = document.hidden ? Math.min(interval * 2, HIDDEN_MAX_INTERVAL_MS) : baseInterval;
+            clearTimeout(timer);
+            timer = setTimeout(tick, interval);
+        };
+
+        const handleVisibility = () => {
+            if (document.hidden) {
+                unsubscribe?.();
+                unsubscribe = undefined;
+                return;
+            }
+            if (!unsubscribe) subscribe();
+            clearTimeout(timer);
+            interval = baseInterval;
+            tick();
+        };
+
+        subscribe();
+        timer = setTimeout(tick, interval);
+        document.addEventListener('visibilitychange', handleVisibility);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            unsubscribe?.();
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    }, [fetchStats, applyCounts]);
 
-    return { visits, victims, incrementVisit, incrementVictim, fetchStats };
+    return { visitors, victims, plays, incrementVisit, incrementVictim, fetchStats };
 }
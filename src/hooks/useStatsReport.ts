@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { baseBackend, loadReport, discoverCohorts, type StatsReport } from '../stats';
+
+/**
+ * Custom hook that loads the facilitator report from the unscoped stats backend.
+ *
+ * @param cohortIds Cohorts entered by the facilitator. Cohorts the backend can
+ * discover on its own (self-hosted server, local) are added automatically.
+ * @param enabled Nothing is loaded until this is true (e.g. before the passcode is entered).
+ * @returns {Object} An object containing:
+ * - report: The latest report, null until the first load finishes.
+ * - loading: Whether a load is in progress.
+ * - error: Message of the last failed load, if any.
+ * - refresh: Function to reload the report.
+ */
+export function useStatsReport(cohortIds: string[], enabled = true) {
+    const [report, setReport] = useState<StatsReport | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Arrays are new on every render, depend on their content instead
+    const cohortList = cohortIds.join(',');
+
+    const refresh = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const discovered = await discoverCohorts(baseBackend);
+            const ids = [...new Set([...cohortList.split(',').filter(Boolean), ...discovered])];
+            setReport(await loadReport(baseBackend, ids));
+        } catch (e) {
+            console.error("Failed to load report", e);
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setLoading(false);
+        }
+    }, [cohortList]);
+
+    useEffect(() => {
+        if (enabled) refresh();
+    }, [refresh, enabled]);
+
+    return { report, loading, error, refresh };
+}
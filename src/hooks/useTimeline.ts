@@ -0,0 +1,107 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { createTimeline, type Cue, type TimelineOptions } from '../timeline';
+
+interface UseTimelineOptions<C extends Cue> extends TimelineOptions<C> {
+    /**
+     * Re-render every `tick` seconds of playback (e.g. 0.1 for a progress bar).
+     * Without it the component only re-renders on cues, seeks and play/pause,
+     * which keeps heavy scenes from re-rendering on every animation frame.
+     */
+    tick?: number;
+    /** Pause while the tab is hidden and resume when it is shown again (default true) */
+    pauseWhenHidden?: boolean;
+}
+
+/**
+ * Custom hook that runs a timeline (see `src/timeline`) inside a component.
+ * The timeline is created once; `onCue` / `onEnd` always see the latest render.
+ *
+ * @returns {Object} An object containing:
+ * - time: Playback position in seconds at the last re-render.
+ * - playing: Whether the timeline is running.
+ * - rate: Current playback speed.
+ * - play, pause, seek, setRate: Playback controls.
+ * - timeline: The underlying timeline, for reading the exact time in callbacks.
+ */
+export function useTimeline<C extends Cue>({ tick, pauseWhenHidden = true, onCue, onEnd, ...options }: UseTimelineOptions<C>) {
+    const onCueRef = useRef(onCue);
+    const onEndRef = useRef(onEnd);
+    onCueRef.current = onCue;
+    onEndRef.current = onEnd;
+
+    // Bumped by cues and seeks so the subscriber knows a re-render is due
+    const versionRef = useRef(0);
+
+    const [timeline] = useState(() => createTimeline<C>({
+        ...options,
+        onCue: (cue) => {
+            versionRef.current++;
+            onCueRef.current?.(cue);
+        },
+        onEnd: () => onEndRef.current?.(),
+    }));
+
+    const readSnapshot = useCallback(() => ({
+        time: timeline.time,
+        playing: timeline.playing,
+        rate: timeline.rate,
+        version: versionRef.current,
+        step: tick ? Math.floor(timeline.time / tick) : 0,
+    }), [timeline, tick]);
+
+    const [snapshot, setSnapshot] = useState(readSnapshot);
+
+    useEffect(() => {
+        const unsubscribe = timeline.subscribe(() => {
+            const next = readSnapshot();
+            setSnapshot(prev =>
+                prev.playing === next.playing && prev.rate === next.rate &&
+                prev.version === next.version && prev.step === next.step
+                    ? prev
+                    : next,
+            );
+        });
+        return () => {
+            unsubscribe();
+            // Stops the frame loop on unmount; StrictMode's re-mount simply subscribes again
+            timeline.pause();
+        };
+    }, [timeline, readSnapshot]);
+
+    /**
+     * Pauses in hidden tabs so a scripted scene never runs on without the viewer.
+     */
+    useEffect(() => {
+        if (!pauseWhenHidden) return;
+        let pausedByVisibility = false;
+
+        const handleVisibility = () => {
+            if (document.hidden && timeline.playing) {
+                pausedByVisibility = true;
+                timeline.pause();
+            } else if (!document.hidden && pausedByVisibility) {
+                pausedByVisibility = false;
+                timeline.play();
+            }
+        };
+
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => document.removeEventListener('visibilitychange', handleVisibility);
+    }, [timeline, pauseWhenHidden]);
+
+    const seek = useCallback((time: number) => {
+        versionRef.current++;
+        timeline.seek(time);
+    }, [timeline]);
+
+    return {
+        time: snapshot.time,
+        playing: snapshot.playing,
+        rate: snapshot.rate,
+        play: timeline.play,
+        pause: timeline.pause,
+        seek,
+        setRate: timeline.setRate,
+        timeline,
+    };
+}
@@ -0,0 +1,25 @@
+/**
+ * Bundled fonts for the non-Latin scripts, so Sinhala and Tamil render the
+ * same on every device instead of depending on what the system happens to have.
+ *
+ * DOM text picks them up through the Tailwind font stacks (tailwind.config.js);
+ * the @fontsource stylesheets only download a file once a page uses its script.
+ * The drei `Text` in the 3D scene cannot use CSS fonts and gets a font file per locale.
+ */
+import '@fontsource/noto-sans-sinhala/sinhala-400.css';
+import '@fontsource/noto-sans-sinhala/sinhala-700.css';
+import '@fontsource/noto-sans-tamil/tamil-400.css';
+import '@fontsource/noto-sans-tamil/tamil-700.css';
+import sinhalaSceneFont from '@fontsource/noto-sans-sinhala/files/noto-sans-sinhala-sinhala-700-normal.woff?url';
+import tamilSceneFont from '@fontsource/noto-sans-tamil/files/noto-sans-tamil-tamil-700-normal.woff?url';
+import type { Locale } from './language';
+
+/**
+ * Font file for 3D text per locale (troika needs .woff/.ttf, not .woff2).
+ * Characters a file lacks, e.g. a Latin `?to=` name, fall back to troika's Noto fonts.
+ */
+export const SCENE_FONTS: Record<Locale, string> = {
+    en: 'https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff',
+    si: sinhalaSceneFont,
+    ta: tamilSceneFont,
+};
@@ -0,0 +1,12 @@
+export {
+    LANGUAGES,
+    getLanguageSettings,
+    updateLanguageSettings,
+    subscribeLanguage,
+    cinematicLocales,
+    type Locale,
+    type LanguageOption,
+    type LanguageSettings,
+} from './language';
+export { MESSAGES, formatMessage, withTone, type Messages, type Tone } from './messages';
+export { SCENE_FONTS } from './fonts';
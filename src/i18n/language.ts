@@ -0,0 +1,91 @@
+/**
+ * The chosen language, shared by every component.
+ *
+ * Picked on the splash screen (or preselected with `?lang=si` / `?lang=ta` in
+ * the link) and remembered in localStorage, so replays skip straight to the
+ * right language. "Bilingual" plays the ending cinematic in two languages:
+ * the chosen one first, then its partner (see BILINGUAL_PARTNER).
+ * "Voiceover" adds the recorded narration where the script has one.
+ */
+
+export type Locale = 'en' | 'si' | 'ta';
+
+export interface LanguageOption {
+    locale: Locale;
+    /** Name of the language in that language */
+    label: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+    { locale: 'en', label: 'English' },
+    { locale: 'si', label: 'සිංහල' },
+    { locale: 'ta', label: 'தமிழ்' },
+];
+
+/** Second language of the bilingual cinematic; English + Sinhala was the original version */
+const BILINGUAL_PARTNER: Record<Locale, Locale> = {
+    en: 'si',
+    si: 'en',
+    ta: 'en',
+};
+
+export interface LanguageSettings {
+    locale: Locale;
+    bilingual: boolean;
+    voiceover: boolean;
+}
+
+const STORAGE_KEY = 'scam-sim-language';
+
+const isLocale = (value: unknown): value is Locale => LANGUAGES.some(option => option.locale === value);
+
+function readSettings(): LanguageSettings {
+    const fromLink = new URLSearchParams(window.location.search).get('lang');
+    let stored: Partial<LanguageSettings> = {};
+    try {
+        stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        // Private mode or a corrupt value: use the defaults
+    }
+
+    return {
+        locale: isLocale(fromLink) ? fromLink : isLocale(stored.locale) ? stored.locale : 'en',
+        bilingual: stored.bilingual === true,
+        voiceover: stored.voiceover === true,
+    };
+}
+
+let settings = readSettings();
+const listeners = new Set<() => void>();
+
+const applyDocumentLanguage = () => {
+    document.documentElement.lang = settings.locale;
+};
+applyDocumentLanguage();
+
+/** Current settings; the object only changes when a setting does */
+export const getLanguageSettings = () => settings;
+
+/** Changes one or both settings and notifies subscribers */
+export function updateLanguageSettings(changes: Partial<LanguageSettings>) {
+    settings = { ...settings, ...changes };
+    applyDocumentLanguage();
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Not remembered across reloads, still applies to this one
+    }
+    listeners.forEach(listener => listener());
+}
+
+/** Registers a listener for setting changes. Returns an unsubscribe function */
+export function subscribeLanguage(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/** Order in which the ending cinematic plays its languages */
+export const cinematicLocales = ({ locale, bilingual }: LanguageSettings): Locale[] =>
+    bilingual ? [locale, BILINGUAL_PARTNER[locale]] : [locale];
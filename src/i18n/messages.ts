@@ -0,0 +1,1189 @@
+import type { Locale } from './language';
+import type { ScamTactic } from '../content/tactics';
+import type { RedFlagId } from '../content/redFlags';
+import type { RoastTier } from '../session';
+import type { CardTemplateId } from '../share';
+import type { PaperSize } from '../certificate';
+import type { ScenarioId } from '../scenarios';
+
+/** Copy of a scenario bait told through a text message and the scam page it links to */
+export interface MessageBaitCopy {
+    /** Name shown as the sender of the message */
+    sender: string;
+    message: string;
+    pageTitle: string;
+    pageText: string;
+    /** Placeholders of the page's form fields */
+    fields: string[];
+    button: string;
+    /** Roast card line for this scenario */
+    confession: string;
+}
+
+/**
+ * Every user-facing string outside the cinematic scripts.
+ * Every language must provide every key, so a missing translation is a type error.
+ * The cinematic copy lives with its timing in `content/cinematicScript.ts`.
+ */
+export interface Messages {
+    languagePicker: {
+        prompt: string;
+        bilingual: string;
+        voiceover: string;
+    };
+    audiencePicker: {
+        prompt: string;
+        kids: string;
+        teens: string;
+        adults: string;
+        seniors: string;
+    };
+    splash: {
+        clickToReveal: string;
+        enableSound: string;
+        /** Start gate toggle for the photosensitivity-safe mode */
+        safeMode: string;
+        systemFailure: string;
+        /** Fake terminal output behind the glitch */
+        terminalLines: string[];
+        youFool: string;
+        youClickedTheScam: string;
+        deviceHacked: string;
+        closeWarning: string;
+    };
+    spinner: {
+        title: string;
+        claimButton: string;
+        spin: string;
+        win: string;
+        winTitle: string;
+        winSubtitle: string;
+        verification: string;
+        formTitle: string;
+        fullName: string;
+        mobileNumber: string;
+        selectProvider: string;
+        /** The operator "member rewards" wheel of the loyaltyWheel scenario; the rest is shared */
+        loyalty: {
+            title: string;
+            winTitle: string;
+            winSubtitle: string;
+            verification: string;
+            button: string;
+            formTitle: string;
+            /** Roast card line */
+            confession: string;
+        };
+    };
+    surprise: {
+        /** 3D greeting from the main gift */
+        greeting: string;
+        /** Greeting for `?to=Name` links, `{name}` is replaced */
+        greetingTo: string;
+    };
+    overlay: {
+        liveVisitors: string;
+        scammed: string;
+        totalPlays: string;
+        tapAllGifts: string;
+        credits: string;
+    };
+    playback: {
+        play: string;
+        pause: string;
+        previousChapter: string;
+        nextChapter: string;
+        transcript: string;
+    };
+    transcript: {
+        title: string;
+        close: string;
+        /** Button next to each slide that plays the cinematic from there */
+        playFromHere: string;
+    };
+    /** Baits of the message-based scenarios (see `src/scenarios`) */
+    baits: {
+        courier: MessageBaitCopy;
+        bankOtp: MessageBaitCopy;
+        jobOffer: MessageBaitCopy;
+        giveaway: MessageBaitCopy;
+    };
+    escapeHatch: {
+        label: string;
+    };
+    aftercare: {
+        title: string;
+        notHacked: string;
+        noData: string;
+        tacticHeading: string;
+        /** One sentence per tactic: what it looked like and why it works */
+        tactics: Record<ScamTactic, string>;
+        advice: string;
+        continue: string;
+        exit: string;
+    };
+    ending: {
+        seeTheTruth: string;
+        cardClicked: string;
+        cardConfession: string;
+        curiosity: string;
+        suspicion: string;
+        /** Case number in the card's corner, with a {number} placeholder */
+        caseNumber: string;
+        /** Seconds waited before opening the gift; {seconds} */
+        hesitated: string;
+        /** Extra gifts shaken; {shaken} and {total} */
+        giftsShaken: string;
+        triedToLeave: string;
+        stayed: string;
+        /** Title under the card, by how suspicious the play was */
+        titles: Record<RoastTier, string>;
+        /** Emoji on the roast card */
+        cardBadge: string;
+        downloadCard: string;
+        /** Shown instead of `downloadCard` where the browser can share the image */
+        shareCard: string;
+        /** Shown when the card image could not be made */
+        shareFailed: string;
+        /** Sent along with the shared card; {link} is the campaign link */
+        shareText: string;
+        /** Caption of the QR code on the card */
+        scanToPlay: string;
+        cardTemplates: Record<CardTemplateId, string>;
+        seeFinalMessage: string;
+        /** Opens the red-flag hunt from the roast card */
+        spotFlags: string;
+        waitMore: string;
+        awareness: string;
+    };
+    /** Interface of the quiz after the cinematic; the questions are in `content/quiz.ts` */
+    quiz: {
+        title: string;
+        /** `{number}` and `{total}` are replaced */
+        progress: string;
+        true: string;
+        false: string;
+        correct: string;
+        wrong: string;
+        next: string;
+        results: string;
+        /** `{score}` and `{total}` are replaced */
+        score: string;
+        toCard: string;
+        skip: string;
+        /** Score line on the roast card, `{score}` and `{total}` are replaced */
+        cardScore: string;
+    };
+    /** The pre/post knowledge check; the items are in `content/assessment.ts` */
+    assessment: {
+        preTitle: string;
+        postTitle: string;
+        intro: string;
+        true: string;
+        false: string;
+        notSure: string;
+        submit: string;
+        skip: string;
+        /** `{before}`, `{after}` and `{total}` are replaced */
+        result: string;
+        continue: string;
+    };
+    /** The red-flag hunt (see `content/redFlags.ts`) */
+    hunt: {
+        title: string;
+        intro: string;
+        /** `{screen}`, `{screens}`, `{found}` and `{total}` are replaced */
+        progress: string;
+        /** `{misses}` is replaced */
+        misses: string;
+        next: string;
+        results: string;
+        /** `{found}` and `{total}` are replaced */
+        score: string;
+        missed: string;
+        done: string;
+        flags: Record<RedFlagId, { label: string; explanation: string }>;
+    };
+    /** The participation certificate offered after the roast card (see `src/certificate`) */
+    certificate: {
+        /** Button on the roast card screen */
+        open: string;
+        title: string;
+        nameLabel: string;
+        namePrivacy: string;
+        /** Opt-in: without it the name is forgotten when the dialog closes */
+        rememberName: string;
+        paper: Record<PaperSize, string>;
+        downloadPng: string;
+        downloadPdf: string;
+        /** Shown when the certificate could not be rendered or saved */
+        saveFailed: string;
+        close: string;
+        /** Printed on the certificate from here on */
+        heading: string;
+        award: string;
+        certifies: string;
+        completed: string;
+        /** `{scenario}` is replaced */
+        scenario: string;
+        /** `{score}` and `{total}` are replaced */
+        quizScore: string;
+        quizSkipped: string;
+        date: string;
+        number: string;
+        issuedBy: string;
+        scenarios: Record<ScenarioId, string>;
+    };
+    /** Softer wording of the scare and the roast card, used by the gentle tone */
+    gentle: {
+        splash: Pick<Messages['splash'], 'youFool' | 'youClickedTheScam' | 'deviceHacked' | 'closeWarning'>;
+        ending: Pick<Messages['ending'], 'cardClicked' | 'cardConfession' | 'titles' | 'cardBadge'>;
+    };
+}
+
+/**
+ * How hard the experience scares and roasts: `gentle` swaps in the `gentle` copy.
+ * Chosen by the audience profile (see `src/audience`).
+ */
+export type Tone = 'standard' | 'gentle';
+
+const en: Messages = {
+    languagePicker: {
+        prompt: 'Choose your language',
+        bilingual: 'Play the ending in both languages',
+        voiceover: 'Voiceover',
+    },
+    audiencePicker: {
+        prompt: 'Who is watching?',
+        kids: 'Kids',
+        teens: 'Teens',
+        adults: 'Adults',
+        seniors: 'Seniors',
+    },
+    splash: {
+        clickToReveal: 'Click to Reveal Prize',
+        enableSound: 'Enable sound for best experience',
+        safeMode: 'Reduce flashing and shaking',
+        systemFailure: 'SYSTEM FAILURE',
+        terminalLines: [
+            'injecting payload...',
+            'bypassing firewall...',
+            'root access granted',
+            'decrypting user keys...',
+            'uploading private_data.zip',
+            'disabling antivirus...',
+            'connecting to botnet...',
+            'fetching gps location...',
+            'camera access: ENABLED',
+            'microphone: LISTENING',
+        ],
+        youFool: 'YOU FOOL.',
+        youClickedTheScam: 'YOU CLICKED THE SCAM.',
+        deviceHacked: 'YOUR DEVICE HAS BEEN HACKED',
+        closeWarning: 'IF YOU CLOSE THIS YOUR DATA WILL BE DELETED THEREFORE CONTINUE THE NEXT STEPS...',
+    },
+    spinner: {
+        title: 'Spin to Win Data',
+        claimButton: 'CLAIM MY 50GB',
+        spin: 'SPIN',
+        win: 'WIN!',
+        winTitle: 'CONGRATULATIONS!',
+        winSubtitle: 'YOU WON 50GB DATA',
+        verification: 'Secure Verification',
+        formTitle: 'Claim Your Reward',
+        fullName: 'Full Name',
+        mobileNumber: 'Mobile Number',
+        selectProvider: 'Select Provider',
+        loyalty: {
+            title: 'MEMBER REWARDS',
+            winTitle: 'VERIFIED SELECTION',
+            winSubtitle: 'PREMIUM DATA ALLOCATION',
+            verification: 'Partner Promotion',
+            button: 'CONFIRM MY REWARD',
+            formTitle: 'Confirm Your Membership',
+            confession: 'I trusted a prize wheel because it looked official.',
+        },
+    },
+    surprise: {
+        greeting: 'Merry\nChristmas!',
+        greetingTo: 'Merry Christmas,\n{name}!',
+    },
+    overlay: {
+        liveVisitors: 'Live Visitors',
+        scammed: 'Scammed',
+        totalPlays: 'Total Plays',
+        tapAllGifts: 'Tap all gifts to open',
+        credits: 'The concept and developed by :',
+    },
+    playback: {
+        play: 'Play',
+        pause: 'Pause',
+        previousChapter: 'Previous chapter',
+        nextChapter: 'Next chapter',
+        transcript: 'Transcript',
+    },
+    transcript: {
+        title: 'Lesson transcript',
+        close: 'Close',
+        playFromHere: 'Play from here',
+    },
+    baits: {
+        courier: {
+            sender: 'SwiftPost LK',
+            message: 'SwiftPost: Your parcel LK-48213 is held at customs. Pay the LKR 350 clearance fee within 24 hours or it will be returned: swiftpost-lk.delivery-help.com',
+            pageTitle: 'Customs clearance',
+            pageText: 'Parcel LK-48213 · Fee due: LKR 350.00',
+            fields: ['Card number', 'Expiry (MM/YY)', 'CVV'],
+            button: 'Pay & release parcel',
+            confession: 'I paid a fake customs fee for a parcel that never existed.',
+        },
+        bankOtp: {
+            sender: 'YourBank',
+            message: 'YourBank ALERT: A new device signed in to your account. If this was not you, verify now to block it: yourbank-secure.verify-id.net',
+            pageTitle: 'Account verification',
+            pageText: 'Enter the 6-digit OTP we just sent to block the unknown device.',
+            fields: ['Username', 'One-time password (OTP)'],
+            button: 'Verify & block device',
+            confession: 'I gave away the OTP that unlocks my bank account.',
+        },
+        jobOffer: {
+            sender: 'HR · Global Remote Jobs',
+            message: 'Hi! We saw your profile. Part-time online work: earn LKR 15,000 a day liking videos, no experience needed. Limited slots, register today: global-remote-jobs.work/apply',
+            pageTitle: 'Registration',
+            pageText: 'Secure your position. One-time registration fee: LKR 2,500',
+            fields: ['Full name', 'NIC number', 'Mobile number'],
+            button: 'Pay fee & start earning',
+            confession: 'I paid to register for a job that did not exist.',
+        },
+        giveaway: {
+            sender: 'Ceylon SuperMart',
+            message: '🎉 Ceylon SuperMart 50th anniversary! You have been selected for a FREE smartphone. Answer 3 questions and share with 5 groups to claim: ceylon-supermart.gift-claim.org',
+            pageTitle: 'Anniversary giveaway',
+            pageText: 'Congratulations! 1 smartphone reserved for you. Delivery fee: LKR 499',
+            fields: ['Full name', 'Mobile number', 'Home address'],
+            button: 'Claim my gift',
+            confession: 'I trusted a fake giveaway that borrowed a brand name.',
+        },
+    },
+    escapeHatch: {
+        label: 'This is a simulation',
+    },
+    aftercare: {
+        title: 'You are safe. This is a simulation.',
+        notHacked: 'Nothing was hacked. Your device, accounts and files were never touched.',
+        noData: 'No personal data was collected. Apart from anonymous visit counts, nothing you typed or clicked left this page.',
+        tacticHeading: 'What you just saw',
+        tactics: {
+            prize: 'A "you won!" prize wheel. Scammers promise something too good to be true so you act before you think.',
+            fakeFee: 'A "parcel held" message. A small fee and a deadline make paying feel safer than checking.',
+            otp: 'A fake bank alert. Nobody real ever needs your OTP; whoever has it can take over your account.',
+            jobOffer: 'A dream job offer. Easy money for little work, then a "registration fee" before you can start.',
+            brandImpersonation: "A giveaway in a famous brand's name. A familiar logo borrows trust the sender has not earned.",
+            fakeError: 'A fake system crash. Scary error screens make you believe something is broken so you follow their "fix".',
+            fear: 'Fear and insults. Being told you were hacked pushes you to panic instead of checking.',
+            urgency: 'A countdown. False deadlines rush you so there is no time to ask someone or verify.',
+            freeGift: 'A free gift. Curiosity about a surprise makes you click links and open things from strangers.',
+        },
+        advice: 'Real scams use the same tricks. When something rushes or scares you, stop and ask someone you trust.',
+        continue: 'Continue the simulation',
+        exit: 'Exit',
+    },
+    ending: {
+        seeTheTruth: 'See The Truth',
+        cardClicked: 'I CLICKED IT.',
+        cardConfession: 'I spun the wheel and gave away my data.',
+        curiosity: 'Curiosity',
+        suspicion: 'Suspicion',
+        caseNumber: 'CASE #{number}',
+        hesitated: 'Hesitated {seconds}s before opening the gift',
+        giftsShaken: 'Shook {shaken} of {total} extra gifts',
+        triedToLeave: 'Tried to escape the countdown',
+        stayed: 'Sat through the countdown',
+        titles: {
+            easyTarget: 'Certified Easy Target',
+            curiousClicker: 'Professional Curious Clicker',
+            cautiousClicker: 'Cautious, But Still Clicked',
+            scamSpotter: 'Almost a Scam Spotter',
+        },
+        cardBadge: '🤡',
+        downloadCard: 'Download Card',
+        shareCard: 'Share Card',
+        shareFailed: 'Could not create the card image. Please try again.',
+        shareText: 'I got caught by a Christmas scam simulation. Can you spot the scam? {link}',
+        scanToPlay: 'Scan to test yourself',
+        cardTemplates: {
+            square: 'Post',
+            story: 'Story',
+            status: 'WhatsApp status',
+        },
+        seeFinalMessage: 'See Final Message',
+        spotFlags: 'Spot the Red Flags',
+        waitMore: "Wait... there's more",
+        awareness: 'Awareness is protection.',
+    },
+    quiz: {
+        title: 'Quick quiz',
+        progress: 'Question {number} of {total}',
+        true: 'True',
+        false: 'False',
+        correct: 'Correct!',
+        wrong: 'Not quite.',
+        next: 'Next question',
+        results: 'See my score',
+        score: 'You scored {score} of {total}',
+        toCard: 'See my card',
+        skip: 'Skip the quiz',
+        cardScore: 'Quiz score: {score}/{total}',
+    },
+    assessment: {
+        preTitle: 'Before we start: 4 quick questions',
+        postTitle: 'One last check: the same 4 questions',
+        intro: 'Anonymous, and no answers are shown. It helps us find out what people learn.',
+        true: 'True',
+        false: 'False',
+        notSure: 'Not sure',
+        submit: 'Done',
+        skip: 'Skip',
+        result: 'Before: {before} of {total} · Now: {after} of {total}',
+        continue: 'Continue',
+    },
+    hunt: {
+        title: 'Red-flag hunt',
+        intro: 'Tap everything on this screen that should make you suspicious.',
+        progress: 'Screen {screen} of {screens} · Found {found} of {total}',
+        misses: 'Wrong taps: {misses}',
+        next: 'Next screen',
+        results: 'See my score',
+        score: 'You spotted {found} of {total} red flags',
+        missed: 'Missed',
+        done: 'Back to my card',
+        flags: {
+            unexpectedPrize: {
+                label: 'A prize you never entered for',
+                explanation: 'Nobody gives away 50GB for one spin. If you did not enter a contest, you did not win it.',
+            },
+            fakeBadge: {
+                label: 'A fake "secure" badge',
+                explanation: 'A padlock or "Secure Verification" drawn on a page proves nothing. Anyone can paste one in.',
+            },
+            personalData: {
+                label: 'Asking for your details',
+                explanation: 'Your name, number and provider are what the scammer is after. A real prize never needs them typed into a pop-up.',
+            },
+            spoofedSender: {
+                label: 'A familiar name as the sender',
+                explanation: 'Sender names are easy to fake, and a fake message can land in the same thread as real ones. The name alone proves nothing.',
+            },
+            lookalikeLink: {
+                label: 'A link that only looks official',
+                explanation: 'A company name at the start of a link proves nothing: what counts is the part just before the first single "/". Open the official app or type the address yourself.',
+            },
+            upfrontFee: {
+                label: 'A fee to pay first',
+                explanation: 'A small fee is easy to pay without thinking, and that is the point. Real deliveries, jobs and gifts never need paying through a link in a message.',
+            },
+            otpRequest: {
+                label: 'Asking for your OTP',
+                explanation: 'An OTP is the last lock on your account. No bank, company or person ever needs it, whatever the reason they give.',
+            },
+            scamForm: {
+                label: 'A form asking for private details',
+                explanation: 'Card numbers, OTPs, ID numbers and addresses are what the scammer is after. Never type them into a page you reached from a message.',
+            },
+            fakeCrash: {
+                label: 'A "system failure" on a web page',
+                explanation: 'A website cannot crash your phone or computer. A scary error inside a page is just more of the page.',
+            },
+            fakeTerminal: {
+                label: 'Hacker text scrolling by',
+                explanation: '"Root access granted" and similar lines are decoration. Real attacks do not announce themselves.',
+            },
+            countdown: {
+                label: 'A countdown',
+                explanation: 'Timers are there to stop you thinking. Nothing real happens when a scam countdown reaches zero.',
+            },
+            closeThreat: {
+                label: 'A threat if you close the page',
+                explanation: 'Closing a suspicious page is always safe. Being told not to is the clearest sign you should.',
+            },
+        },
+    },
+    certificate: {
+        open: 'Get a Certificate',
+        title: 'Your "Scam-Aware" certificate',
+        nameLabel: 'Your name, as it should appear on the certificate',
+        namePrivacy: 'Your name is never sent anywhere.',
+        rememberName: 'Remember my name on this device',
+        paper: {
+            a4: 'A4',
+            letter: 'Letter',
+        },
+        downloadPng: 'Download PNG',
+        downloadPdf: 'Download PDF',
+        saveFailed: 'Could not save the certificate. Please try again.',
+        close: 'Back to my card',
+        heading: 'Certificate of Participation',
+        award: 'Scam-Aware',
+        certifies: 'This certifies that',
+        completed: 'completed the Christmas Scam Simulation and learned how to pause, verify and protect themselves online.',
+        scenario: 'Scenario completed: {scenario}',
+        quizScore: 'Quiz score: {score} / {total}',
+        quizSkipped: 'Quiz not taken',
+        date: 'Date',
+        number: 'Certificate no.',
+        issuedBy: 'Leo Club of St. Servatius College',
+        scenarios: {
+            dataWheel: 'The Christmas prize wheel',
+            courier: 'The fake courier delivery',
+            bankOtp: 'The bank OTP request',
+            jobOffer: 'The fake job offer',
+            giveaway: 'The brand giveaway',
+            loyaltyWheel: 'The fake loyalty wheel',
+        },
+    },
+    gentle: {
+        splash: {
+            youFool: 'OOPS!',
+            youClickedTheScam: 'That was a scam.',
+            deviceHacked: "Don't worry, this is only a lesson. Your device is safe.",
+            closeWarning: 'Real scammers rush you like this. Slow down: you can always close the page.',
+        },
+        ending: {
+            cardClicked: 'I LEARNED SOMETHING.',
+            cardConfession: 'I spun the wheel. Next time I will stop and check first.',
+            titles: {
+                easyTarget: 'Scam Spotter in Training',
+                curiousClicker: 'Learning to Pause',
+                cautiousClicker: 'Getting Careful',
+                scamSpotter: 'Nearly a Scam Spotter',
+            },
+            cardBadge: '🎓',
+        },
+    },
+};
+
+const si: Messages = {
+    languagePicker: {
+        prompt: 'ඔබේ භාෂාව තෝරන්න',
+        bilingual: 'අවසාන කොටස භාෂා දෙකෙන්ම පෙන්වන්න',
+        voiceover: 'හඬ විස්තරය',
+    },
+    audiencePicker: {
+        prompt: 'නරඹන්නේ කවුද?',
+        kids: 'ළමයින්',
+        teens: 'යෞවනයන්',
+        adults: 'වැඩිහිටියන්',
+        seniors: 'වයෝවෘද්ධයන්',
+    },
+    splash: {
+        clickToReveal: 'ත්‍යාගය බැලීමට ක්ලික් කරන්න',
+        enableSound: 'හොඳම අත්දැකීම සඳහා ශබ්දය සක්‍රීය කරන්න',
+        safeMode: 'දැල්වීම් සහ කම්පන අඩු කරන්න',
+        systemFailure: 'පද්ධති බිඳවැටීම',
+        // Kept in English on purpose: it imitates real terminal output
+        terminalLines: en.splash.terminalLines,
+        youFool: 'ඔබ රැවටුණා.',
+        youClickedTheScam: 'ඔබ වංචාව ක්ලික් කළා.',
+        deviceHacked: 'ඔබගේ උපාංගය හැක් කර ඇත',
+        closeWarning: 'මෙය වසා දැමුවහොත් ඔබගේ දත්ත මැකී යනු ඇත. එබැවින් ඊළඟ පියවර දිගටම කරගෙන යන්න...',
+    },
+    spinner: {
+        title: 'කරකවා දත්ත දිනාගන්න',
+        claimButton: 'මගේ 50GB ලබාගන්න',
+        spin: 'කරකවන්න',
+        win: 'ජය!',
+        winTitle: 'සුබ පැතුම්!',
+        winSubtitle: 'ඔබ 50GB දත්ත දිනා ඇත',
+        verification: 'ආරක්ෂිත තහවුරු කිරීම',
+        formTitle: 'ඔබේ ත්‍යාගය ලබාගන්න',
+        fullName: 'සම්පූර්ණ නම',
+        mobileNumber: 'ජංගම දුරකථන අංකය',
+        selectProvider: 'සේවා සපයන්නා තෝරන්න',
+        loyalty: {
+            title: 'සාමාජික ත්‍යාග',
+            winTitle: 'තහවුරු කළ තේරීම',
+            winSubtitle: 'ප්‍රිමියම් දත්ත ප්‍රදානය',
+            verification: 'හවුල්කාර ප්‍රවර්ධනය',
+            button: 'මගේ ත්‍යාගය තහවුරු කරන්න',
+            formTitle: 'ඔබේ සාමාජිකත්වය තහවුරු කරන්න',
+            confession: 'නිල ලෙස පෙනුණු නිසා මම ත්‍යාග රෝදයක් විශ්වාස කළා.',
+        },
+    },
+    surprise: {
+        greeting: 'සුබ\nනත්තලක්!',
+        greetingTo: 'සුබ නත්තලක්,\n{name}!',
+    },
+    overlay: {
+        liveVisitors: 'සජීවී අමුත්තන්',
+        scammed: 'රැවටුණු',
+        totalPlays: 'මුළු වාර ගණන',
+        tapAllGifts: 'සියලුම තෑගි විවෘත කිරීමට තට්ටු කරන්න',
+        credits: 'සංකල්පය සහ සංවර්ධනය :',
+    },
+    playback: {
+        play: 'ධාවනය',
+        pause: 'විරාමය',
+        previousChapter: 'පෙර කොටස',
+        nextChapter: 'ඊළඟ කොටස',
+        transcript: 'පිටපත',
+    },
+    transcript: {
+        title: 'පාඩමේ පිටපත',
+        close: 'වසන්න',
+        playFromHere: 'මෙතැන් සිට ධාවනය කරන්න',
+    },
+    baits: {
+        courier: {
+            sender: 'SwiftPost LK',
+            message: 'SwiftPost: ඔබගේ පාර්සලය LK-48213 රේගුවේ රඳවා ඇත. පැය 24ක් ඇතුළත රු. 350 නිෂ්කාශන ගාස්තුව ගෙවන්න, නැතහොත් එය ආපසු යවනු ලැබේ: swiftpost-lk.delivery-help.com',
+            pageTitle: 'රේගු නිෂ්කාශනය',
+            pageText: 'පාර්සලය LK-48213 · ගෙවිය යුතු ගාස්තුව: රු. 350.00',
+            fields: ['කාඩ්පත් අංකය', 'කල් ඉකුත් වීම (MM/YY)', 'CVV'],
+            button: 'ගෙවා පාර්සලය නිදහස් කරන්න',
+            confession: 'මම කිසිදා නොතිබූ පාර්සලයකට ව්‍යාජ රේගු ගාස්තුවක් ගෙව්වා.',
+        },
+        bankOtp: {
+            sender: 'YourBank',
+            message: 'YourBank අවවාදය: නව උපාංගයක් ඔබගේ ගිණුමට පිවිසී ඇත. එය ඔබ නොවේ නම්, එය අවහිර කිරීමට දැන්ම තහවුරු කරන්න: yourbank-secure.verify-id.net',
+            pageTitle: 'ගිණුම් තහවුරු කිරීම',
+            pageText: 'නොදන්නා උපාංගය අවහිර කිරීමට අප දැන් එවූ ඉලක්කම් 6ක OTP අංකය ඇතුළත් කරන්න.',
+            fields: ['පරිශීලක නාමය', 'එක් වරක් භාවිත මුරපදය (OTP)'],
+            button: 'තහවුරු කර උපාංගය අවහිර කරන්න',
+            confession: 'මම මගේ බැංකු ගිණුම විවෘත කරන OTP අංකය ලබා දුන්නා.',
+        },
+        jobOffer: {
+            sender: 'HR · Global Remote Jobs',
+            message: 'ආයුබෝවන්! අපි ඔබගේ පැතිකඩ දුටුවා. අර්ධකාලීන මාර්ගගත රැකියාව: වීඩියෝ ලයික් කිරීමෙන් දිනකට රු. 15,000ක් උපයන්න, පළපුරුද්ද අවශ්‍ය නැත. ස්ථාන සීමිතයි, අදම ලියාපදිංචි වන්න: global-remote-jobs.work/apply',
+            pageTitle: 'ලියාපදිංචිය',
+            pageText: 'ඔබගේ තනතුර තහවුරු කරගන්න. එක් වරක් ලියාපදිංචි ගාස්තුව: රු. 2,500',
+            fields: ['සම්පූර්ණ නම', 'ජා.හැ.අ. අංකය', 'ජංගම දුරකථන අංකය'],
+            button: 'ගාස්තුව ගෙවා උපයන්න අරඹන්න',
+            confession: 'මම නොපවතින රැකියාවක් සඳහා ලියාපදිංචි වීමට මුදල් ගෙව්වා.',
+        },
+        giveaway: {
+            sender: 'Ceylon SuperMart',
+            message: '🎉 Ceylon SuperMart 50 වන සංවත්සරය! නොමිලේ ස්මාර්ට් ෆෝන් එකක් සඳහා ඔබ තෝරාගෙන ඇත. ප්‍රශ්න 3කට පිළිතුරු දී කණ්ඩායම් 5කට බෙදාගෙන ලබාගන්න: ceylon-supermart.gift-claim.org',
+            pageTitle: 'සංවත්සර තෑගි දීමනාව',
+            pageText: 'සුබ පැතුම්! ඔබ වෙනුවෙන් ස්මාර්ට් ෆෝන් එකක් වෙන් කර ඇත. බෙදාහැරීමේ ගාස්තුව: රු. 499',
+            fields: ['සම්පූර්ණ නම', 'ජංගම දුරකථන අංකය', 'නිවසේ ලිපිනය'],
+            button: 'මගේ තෑග්ග ලබාගන්න',
+            confession: 'මම වෙළඳ නාමයක් භාවිත කළ ව්‍යාජ තෑගි දීමනාවක් විශ්වාස කළා.',
+        },
+    },
+    escapeHatch: {
+        label: 'මෙය අනුකරණයකි',
+    },
+    aftercare: {
+        title: 'ඔබ ආරක්ෂිතයි. මෙය අනුකරණයකි.',
+        notHacked: 'කිසිවක් හැක් කළේ නැත. ඔබගේ උපාංගය, ගිණුම් සහ ගොනු කිසිවකට අත නොතැබුණි.',
+        noData: 'පෞද්ගලික දත්ත කිසිවක් එකතු කළේ නැත. නිර්නාමික පැමිණීම් ගණන් හැර, ඔබ ටයිප් කළ හෝ ක්ලික් කළ කිසිවක් මෙම පිටුවෙන් පිටතට ගියේ නැත.',
+        tacticHeading: 'ඔබ දැන් දුටුවේ කුමක්ද',
+        tactics: {
+            prize: '"ඔබ දිනුවා!" ත්‍යාග රෝදයක්. ඔබ සිතීමට පෙර ක්‍රියා කරන ලෙස වංචාකරුවන් විශ්වාස කළ නොහැකි තරම් හොඳ දේ පොරොන්දු වෙයි.',
+            fakeFee: '"පාර්සලය රඳවා ඇත" පණිවිඩයක්. කුඩා ගාස්තුවක් සහ කාල සීමාවක් නිසා පරීක්ෂා කිරීමට වඩා ගෙවීම ආරක්ෂිත බව හැඟේ.',
+            otp: 'ව්‍යාජ බැංකු අවවාදයක්. සැබෑ කිසිවෙකුට ඔබගේ OTP අංකය අවශ්‍ය නැත; එය ඇති ඕනෑම අයෙකුට ඔබගේ ගිණුම අල්ලාගත හැකිය.',
+            jobOffer: 'සිහින රැකියා දීමනාවක්. සුළු වැඩකට පහසු මුදල්, පසුව ආරම්භ කිරීමට පෙර "ලියාපදිංචි ගාස්තුවක්".',
+            brandImpersonation: 'ප්‍රසිද්ධ වෙළඳ නාමයක නමින් තෑගි දීමනාවක්. හුරුපුරුදු ලාංඡනයක් යවන්නා උපයා නොගත් විශ්වාසය ණයට ගනී.',
+            fakeError: 'ව්‍යාජ පද්ධති බිඳවැටීමක්. බියජනක දෝෂ තිර යමක් කැඩී ඇතැයි විශ්වාස කරවා ඔවුන්ගේ "විසඳුම" අනුගමනය කිරීමට සලස්වයි.',
+            fear: 'බිය සහ අපහාස. ඔබ හැක් වී ඇතැයි පැවසීමෙන් පරීක්ෂා කිරීම වෙනුවට කලබල වීමට පොළඹවයි.',
+            urgency: 'ගණන් කිරීමක්. ව්‍යාජ කාල සීමා කෙනෙකුගෙන් විමසීමට හෝ තහවුරු කිරීමට කාලය නොදී ඔබව කලබල කරයි.',
+            freeGift: 'නොමිලේ තෑග්ගක්. පුදුමයක් ගැන කුතුහලය නාඳුනන අයගේ සබැඳි ක්ලික් කිරීමට සහ දේවල් විවෘත කිරීමට ඔබව පොළඹවයි.',
+        },
+        advice: 'සැබෑ වංචා ද මෙම උපක්‍රමම භාවිතා කරයි. යමක් ඔබව කලබල කරන විට හෝ බිය ගන්වන විට, නවතින්න, ඔබ විශ්වාස කරන කෙනෙකුගෙන් විමසන්න.',
+        continue: 'අනුකරණය දිගටම කරගෙන යන්න',
+        exit: 'පිටවන්න',
+    },
+    ending: {
+        seeTheTruth: 'ඇත්ත බලන්න',
+        cardClicked: 'මම එය ක්ලික් කළා.',
+        cardConfession: 'මම රෝදය කරකවා මගේ දත්ත ලබා දුන්නා.',
+        curiosity: 'කුතුහලය',
+        suspicion: 'සැකය',
+        caseNumber: 'නඩු අංකය #{number}',
+        hesitated: 'තෑග්ග විවෘත කිරීමට පෙර තත්පර {seconds}ක් පැකිලුණා',
+        giftsShaken: 'අමතර තෑගි {total}න් {shaken}ක් සෙලවුවා',
+        triedToLeave: 'ගණන් කිරීම අතරතුර පැන යාමට උත්සාහ කළා',
+        stayed: 'ගණන් කිරීම අවසන් වන තුරු රැඳී සිටියා',
+        titles: {
+            easyTarget: 'සහතික කළ පහසු ඉලක්කය',
+            curiousClicker: 'වෘත්තීය කුතුහලයෙන් ක්ලික් කරන්නා',
+            cautiousClicker: 'පරෙස්සම් වුණත් ක්ලික් කළා',
+            scamSpotter: 'වංචා හඳුනාගන්නෙකු වීමට ආසන්නයි',
+        },
+        cardBadge: '🤡',
+        downloadCard: 'කාඩ්පත බාගන්න',
+        shareCard: 'කාඩ්පත බෙදාගන්න',
+        shareFailed: 'කාඩ්පතේ රූපය සෑදීමට නොහැකි විය. කරුණාකර නැවත උත්සාහ කරන්න.',
+        shareText: 'මම නත්තල් වංචා අනුකරණයකට අසු වුණා. ඔබට වංචාව හඳුනාගත හැකිද? {link}',
+        scanToPlay: 'ඔබවම පරීක්ෂා කිරීමට ස්කෑන් කරන්න',
+        cardTemplates: {
+            square: 'පෝස්ට්',
+            story: 'ස්ටෝරි',
+            status: 'WhatsApp status',
+        },
+        seeFinalMessage: 'අවසාන පණිවිඩය බලන්න',
+        spotFlags: 'අනතුරු සංඥා සොයන්න',
+        waitMore: 'ඉන්න... තව තියෙනවා',
+        awareness: 'දැනුවත්භාවය යනු ආරක්ෂාවයි.',
+    },
+    quiz: {
+        title: 'කෙටි ප්‍රශ්නාවලිය',
+        progress: 'ප්‍රශ්න {total} න් {number} වැන්න',
+        true: 'සත්‍යය',
+        false: 'අසත්‍යය',
+        correct: 'නිවැරදියි!',
+        wrong: 'එසේ නොවේ.',
+        next: 'ඊළඟ ප්‍රශ්නය',
+        results: 'මගේ ලකුණු බලන්න',
+        score: 'ඔබ {total} න් {score}ක් ලබාගත්තා',
+        toCard: 'මගේ කාඩ්පත බලන්න',
+        skip: 'ප්‍රශ්නාවලිය මඟ හරින්න',
+        cardScore: 'ප්‍රශ්නාවලි ලකුණු: {score}/{total}',
+    },
+    assessment: {
+        preTitle: 'අපි ආරම්භ කිරීමට පෙර: කෙටි ප්‍රශ්න 4ක්',
+        postTitle: 'අවසාන පරීක්ෂාව: එම ප්‍රශ්න 4 ම',
+        intro: 'නිර්නාමිකයි, පිළිතුරු පෙන්වන්නේ නැත. මිනිසුන් ඉගෙන ගන්නා දේ සොයා ගැනීමට එය අපට උපකාරී වේ.',
+        true: 'සත්‍යය',
+        false: 'අසත්‍යය',
+        notSure: 'විශ්වාස නැත',
+        submit: 'අවසන්',
+        skip: 'මඟ හරින්න',
+        result: 'පෙර: {total} න් {before} · දැන්: {total} න් {after}',
+        continue: 'ඉදිරියට',
+    },
+    hunt: {
+        title: 'අනතුරු සංඥා දඩයම',
+        intro: 'මෙම තිරයේ ඔබට සැක සිතිය යුතු සියල්ල තට්ටු කරන්න.',
+        progress: 'තිරය {screens} න් {screen} · {total} න් {found}ක් සොයාගෙන ඇත',
+        misses: 'වැරදි තට්ටු කිරීම්: {misses}',
+        next: 'ඊළඟ තිරය',
+        results: 'මගේ ලකුණු බලන්න',
+        score: 'ඔබ අනතුරු සංඥා {total} න් {found}ක් හඳුනාගත්තා',
+        missed: 'මඟ හැරුණි',
+        done: 'මගේ කාඩ්පතට ආපසු',
+        flags: {
+            unexpectedPrize: {
+                label: 'ඔබ කිසිදා සහභාගී නොවූ තරඟයක ත්‍යාගයක්',
+                explanation: 'එක් කරකැවීමකට කිසිවෙක් 50GB දෙන්නේ නැත. ඔබ තරඟයකට සහභාගී නොවූවා නම්, ඔබ එය දිනුවේ නැත.',
+            },
+            fakeBadge: {
+                label: 'ව්‍යාජ "ආරක්ෂිත" ලාංඡනයක්',
+                explanation: 'පිටුවක ඇඳ ඇති අගුලක් හෝ "Secure Verification" කිසිවක් ඔප්පු නොකරයි. ඕනෑම කෙනෙකුට එය ඇලවිය හැක.',
+            },
+            personalData: {
+                label: 'ඔබගේ තොරතුරු ඉල්ලීම',
+                explanation: 'ඔබගේ නම, අංකය සහ සේවා සපයන්නා යනු වංචාකරු සොයන දේයි. සැබෑ ත්‍යාගයකට ඒවා උත්පතන කවුළුවක ඇතුළත් කිරීම අවශ්‍ය නැත.',
+            },
+            spoofedSender: {
+                label: 'හුරුපුරුදු නමක් යවන්නා ලෙස',
+                explanation: 'යවන්නාගේ නම ව්‍යාජ ලෙස සෑදීම පහසුය. ව්‍යාජ පණිවිඩයක් සැබෑ පණිවිඩ ඇති ත්‍රෙඩ් එකටම පැමිණිය හැක. නම පමණක් කිසිවක් ඔප්පු නොකරයි.',
+            },
+            lookalikeLink: {
+                label: 'නිල ලෙස පෙනෙන පමණක් සබැඳියක්',
+                explanation: 'සබැඳියක ආරම්භයේ ඇති සමාගම් නාමය කිසිවක් ඔප්පු නොකරයි: වැදගත් වන්නේ පළමු තනි "/" ට පෙර ඇති කොටසයි. නිල යෙදුම විවෘත කරන්න, නැතහොත් ලිපිනය ඔබම ටයිප් කරන්න.',
+            },
+            upfrontFee: {
+                label: 'පළමුව ගෙවිය යුතු ගාස්තුවක්',
+                explanation: 'කුඩා ගාස්තුවක් නොසිතාම ගෙවීම පහසුය, එයයි අරමුණ. සැබෑ පාර්සල්, රැකියා සහ තෑගි සඳහා පණිවිඩයක සබැඳියක් හරහා ගෙවීමට කිසිදා අවශ්‍ය නැත.',
+            },
+            otpRequest: {
+                label: 'ඔබගේ OTP ඉල්ලීම',
+                explanation: 'OTP යනු ඔබගේ ගිණුමේ අවසන් අගුලයි. කුමන හේතුවක් කීවත්, කිසිදු බැංකුවකට, සමාගමකට හෝ පුද්ගලයෙකුට එය අවශ්‍ය නැත.',
+            },
+            scamForm: {
+                label: 'පුද්ගලික තොරතුරු ඉල්ලන පෝරමයක්',
+                explanation: 'කාඩ්පත් අංක, OTP, හැඳුනුම්පත් අංක සහ ලිපින යනු වංචාකරු සොයන දේයි. පණිවිඩයකින් ළඟා වූ පිටුවක ඒවා කිසිදා ඇතුළත් නොකරන්න.',
+            },
+            fakeCrash: {
+                label: 'වෙබ් පිටුවක "පද්ධති බිඳවැටීමක්"',
+                explanation: 'වෙබ් අඩවියකට ඔබගේ දුරකථනය හෝ පරිගණකය බිඳ දැමිය නොහැක. පිටුවක් තුළ ඇති බිය ගන්වන දෝෂයක් එම පිටුවේම කොටසකි.',
+            },
+            fakeTerminal: {
+                label: 'ගලා යන හැකර් අකුරු',
+                explanation: '"Root access granted" වැනි පේළි සැරසිලි පමණි. සැබෑ ප්‍රහාර තමන්ව ප්‍රකාශ කරන්නේ නැත.',
+            },
+            countdown: {
+                label: 'ගණන් කිරීමේ ඔරලෝසුවක්',
+                explanation: 'ඔරලෝසු තිබෙන්නේ ඔබව සිතීමෙන් වළක්වන්නටයි. වංචා ඔරලෝසුවක් බිංදුවට ආ විට සැබෑ කිසිවක් සිදු නොවේ.',
+            },
+            closeThreat: {
+                label: 'පිටුව වසා දැමුවහොත් තර්ජනයක්',
+                explanation: 'සැක සහිත පිටුවක් වසා දැමීම සැමවිටම ආරක්ෂිතයි. එසේ නොකරන ලෙස කීම ඔබ එය කළ යුතු බවට පැහැදිලිම ලකුණයි.',
+            },
+        },
+    },
+    certificate: {
+        open: 'සහතිකයක් ලබාගන්න',
+        title: 'ඔබේ "වංචා දැනුවත්" සහතිකය',
+        nameLabel: 'සහතිකයේ දිස්විය යුතු ඔබේ නම',
+        namePrivacy: 'ඔබේ නම කොතැනකටවත් යවනු නොලැබේ.',
+        rememberName: 'මගේ නම මෙම උපාංගයේ මතක තබාගන්න',
+        paper: {
+            a4: 'A4',
+            letter: 'Letter',
+        },
+        downloadPng: 'PNG බාගන්න',
+        downloadPdf: 'PDF බාගන්න',
+        saveFailed: 'සහතිකය සුරැකීමට නොහැකි විය. කරුණාකර නැවත උත්සාහ කරන්න.',
+        close: 'මගේ කාඩ්පතට ආපසු',
+        heading: 'සහභාගීත්ව සහතිකය',
+        award: 'වංචා දැනුවත් (Scam-Aware)',
+        certifies: 'මෙයින් සහතික කරනුයේ',
+        completed: 'නත්තල් වංචා අනුකරණය සම්පූර්ණ කර, අන්තර්ජාලයේදී නතර වී, තහවුරු කර, ආරක්ෂා වීමට ඉගෙන ගත් බවයි.',
+        scenario: 'සම්පූර්ණ කළ අවස්ථාව: {scenario}',
+        quizScore: 'ප්‍රශ්නාවලි ලකුණු: {score} / {total}',
+        quizSkipped: 'ප්‍රශ්නාවලියට පිළිතුරු දුන්නේ නැත',
+        date: 'දිනය',
+        number: 'සහතික අංකය',
+        issuedBy: 'ශාන්ත සර්වේෂස් විද්‍යාලයීය ලියෝ සමාජය',
+        scenarios: {
+            dataWheel: 'නත්තල් ත්‍යාග රෝදය',
+            courier: 'ව්‍යාජ කුරියර් බෙදාහැරීම',
+            bankOtp: 'බැංකු OTP ඉල්ලීම',
+            jobOffer: 'ව්‍යාජ රැකියා දීමනාව',
+            giveaway: 'සන්නාම තෑගි දීමනාව',
+            loyaltyWheel: 'ව්‍යාජ පාරිභෝගික ත්‍යාග රෝදය',
+        },
+    },
+    gentle: {
+        splash: {
+            youFool: 'අපොයි!',
+            youClickedTheScam: 'එය වංචාවක්.',
+            deviceHacked: 'කරදර නොවන්න, මෙය පාඩමක් පමණි. ඔබගේ උපාංගය ආරක්ෂිතයි.',
+            closeWarning: 'සැබෑ වංචාකරුවන් ඔබව මෙසේ කලබල කරයි. සෙමින් සිතන්න: ඔබට ඕනෑම විටෙක පිටුව වසා දැමිය හැකිය.',
+        },
+        ending: {
+            cardClicked: 'මම යමක් ඉගෙන ගත්තා.',
+            cardConfession: 'මම රෝදය කරකැවුවා. ඊළඟ වතාවේ නැවතී පරීක්ෂා කරනවා.',
+            titles: {
+                easyTarget: 'වංචා හඳුනාගැනීමට පුහුණු වෙමින්',
+                curiousClicker: 'නතර වී සිතීමට ඉගෙන ගනිමින්',
+                cautiousClicker: 'පරෙස්සම් වෙමින්',
+                scamSpotter: 'වංචා හඳුනාගන්නෙකු වීමට ආසන්නයි',
+            },
+            cardBadge: '🎓',
+        },
+    },
+};
+
+const ta: Messages = {
+    languagePicker: {
+        prompt: 'உங்கள் மொழியைத் தேர்ந்தெடுக்கவும்',
+        bilingual: 'முடிவை ஆங்கிலத்திலும் காண்பிக்கவும்',
+        voiceover: 'குரல் விவரிப்பு',
+    },
+    audiencePicker: {
+        prompt: 'யார் பார்க்கிறார்கள்?',
+        kids: 'குழந்தைகள்',
+        teens: 'பதின்வயதினர்',
+        adults: 'பெரியவர்கள்',
+        seniors: 'மூத்தோர்',
+    },
+    splash: {
+        clickToReveal: 'பரிசைக் காண கிளிக் செய்யவும்',
+        enableSound: 'சிறந்த அனுபவத்திற்கு ஒலியை இயக்கவும்',
+        safeMode: 'மின்னல் மற்றும் அதிர்வுகளைக் குறைக்கவும்',
+        systemFailure: 'கணினி செயலிழப்பு',
+        // Kept in English on purpose: it imitates real terminal output
+        terminalLines: en.splash.terminalLines,
+        youFool: 'ஏமாந்துவிட்டீர்கள்.',
+        youClickedTheScam: 'நீங்கள் மோசடியைக் கிளிக் செய்தீர்கள்.',
+        deviceHacked: 'உங்கள் சாதனம் ஹேக் செய்யப்பட்டுள்ளது',
+        closeWarning: 'இதை மூடினால் உங்கள் தரவு நீக்கப்படும். எனவே அடுத்த படிகளைத் தொடரவும்...',
+    },
+    spinner: {
+        title: 'சுழற்றி டேட்டா வெல்லுங்கள்',
+        claimButton: 'எனது 50GB ஐப் பெறுக',
+        spin: 'சுழற்று',
+        win: 'வெற்றி!',
+        winTitle: 'வாழ்த்துக்கள்!',
+        winSubtitle: 'நீங்கள் 50GB டேட்டா வென்றுள்ளீர்கள்',
+        verification: 'பாதுகாப்பான சரிபார்ப்பு',
+        formTitle: 'உங்கள் பரிசைப் பெறுங்கள்',
+        fullName: 'முழுப் பெயர்',
+        mobileNumber: 'கைபேசி எண்',
+        selectProvider: 'சேவை வழங்குநரைத் தேர்ந்தெடுக்கவும்',
+        loyalty: {
+            title: 'உறுப்பினர் வெகுமதிகள்',
+            winTitle: 'சரிபார்க்கப்பட்ட தேர்வு',
+            winSubtitle: 'பிரீமியம் டேட்டா ஒதுக்கீடு',
+            verification: 'கூட்டாளர் விளம்பரம்',
+            button: 'என் வெகுமதியை உறுதிப்படுத்து',
+            formTitle: 'உங்கள் உறுப்பினர் நிலையை உறுதிப்படுத்தவும்',
+            confession: 'அதிகாரப்பூர்வமாகத் தோன்றியதால் ஒரு பரிசுச் சக்கரத்தை நம்பினேன்.',
+        },
+    },
+    surprise: {
+        greeting: 'இனிய\nகிறிஸ்துமஸ்!',
+        greetingTo: 'இனிய கிறிஸ்துமஸ்,\n{name}!',
+    },
+    overlay: {
+        liveVisitors: 'நேரடி பார்வையாளர்கள்',
+        scammed: 'ஏமாந்தவர்கள்',
+        totalPlays: 'மொத்த முறைகள்',
+        tapAllGifts: 'அனைத்து பரிசுகளையும் திறக்கத் தட்டவும்',
+        credits: 'கருத்தும் உருவாக்கமும் :',
+    },
+    playback: {
+        play: 'இயக்கு',
+        pause: 'இடைநிறுத்து',
+        previousChapter: 'முந்தைய பகுதி',
+        nextChapter: 'அடுத்த பகுதி',
+        transcript: 'எழுத்துப் படி',
+    },
+    transcript: {
+        title: 'பாடத்தின் எழுத்துப் படி',
+        close: 'மூடு',
+        playFromHere: 'இங்கிருந்து இயக்கு',
+    },
+    baits: {
+        courier: {
+            sender: 'SwiftPost LK',
+            message: 'SwiftPost: உங்கள் பார்சல் LK-48213 சுங்கத்தில் நிறுத்தி வைக்கப்பட்டுள்ளது. 24 மணி நேரத்திற்குள் ரூ. 350 அனுமதிக் கட்டணத்தைச் செலுத்துங்கள், இல்லையெனில் அது திருப்பி அனுப்பப்படும்: swiftpost-lk.delivery-help.com',
+            pageTitle: 'சுங்க அனுமதி',
+            pageText: 'பார்சல் LK-48213 · செலுத்த வேண்டிய கட்டணம்: ரூ. 350.00',
+            fields: ['அட்டை எண்', 'காலாவதி (MM/YY)', 'CVV'],
+            button: 'செலுத்தி பார்சலை விடுவிக்கவும்',
+            confession: 'இல்லாத பார்சலுக்கு போலியான சுங்கக் கட்டணத்தைச் செலுத்தினேன்.',
+        },
+        bankOtp: {
+            sender: 'YourBank',
+            message: 'YourBank எச்சரிக்கை: உங்கள் கணக்கில் புதிய சாதனம் உள்நுழைந்துள்ளது. அது நீங்கள் இல்லையென்றால், அதைத் தடுக்க இப்போதே சரிபார்க்கவும்: yourbank-secure.verify-id.net',
+            pageTitle: 'கணக்குச் சரிபார்ப்பு',
+            pageText: 'அறியப்படாத சாதனத்தைத் தடுக்க, நாங்கள் இப்போது அனுப்பிய 6 இலக்க OTP-ஐ உள்ளிடவும்.',
+            fields: ['பயனர் பெயர்', 'ஒருமுறை கடவுச்சொல் (OTP)'],
+            button: 'சரிபார்த்து சாதனத்தைத் தடுக்கவும்',
+            confession: 'என் வங்கிக் கணக்கைத் திறக்கும் OTP-ஐக் கொடுத்துவிட்டேன்.',
+        },
+        jobOffer: {
+            sender: 'HR · Global Remote Jobs',
+            message: 'வணக்கம்! உங்கள் சுயவிவரத்தைப் பார்த்தோம். பகுதிநேர ஆன்லைன் வேலை: வீடியோக்களை லைக் செய்து நாளொன்றுக்கு ரூ. 15,000 சம்பாதியுங்கள், அனுபவம் தேவையில்லை. இடங்கள் குறைவு, இன்றே பதிவு செய்யுங்கள்: global-remote-jobs.work/apply',
+            pageTitle: 'பதிவு',
+            pageText: 'உங்கள் இடத்தை உறுதிசெய்யுங்கள். ஒருமுறை பதிவுக் கட்டணம்: ரூ. 2,500',
+            fields: ['முழுப் பெயர்', 'தேசிய அடையாள அட்டை எண்', 'கைபேசி எண்'],
+            button: 'கட்டணம் செலுத்தி சம்பாதிக்கத் தொடங்குங்கள்',
+            confession: 'இல்லாத வேலைக்குப் பதிவு செய்யப் பணம் செலுத்தினேன்.',
+        },
+        giveaway: {
+            sender: 'Ceylon SuperMart',
+            message: '🎉 Ceylon SuperMart 50வது ஆண்டு விழா! இலவச ஸ்மார்ட்போனுக்கு நீங்கள் தேர்ந்தெடுக்கப்பட்டுள்ளீர்கள். 3 கேள்விகளுக்குப் பதிலளித்து 5 குழுக்களுடன் பகிர்ந்து பெற்றுக்கொள்ளுங்கள்: ceylon-supermart.gift-claim.org',
+            pageTitle: 'ஆண்டு விழா பரிசு',
+            pageText: 'வாழ்த்துக்கள்! உங்களுக்காக ஒரு ஸ்மார்ட்போன் ஒதுக்கப்பட்டுள்ளது. விநியோகக் கட்டணம்: ரூ. 499',
+            fields: ['முழுப் பெயர்', 'கைபேசி எண்', 'வீட்டு முகவரி'],
+            button: 'என் பரிசைப் பெறுங்கள்',
+            confession: 'ஒரு பிராண்டின் பெயரைப் பயன்படுத்திய போலியான பரிசை நம்பினேன்.',
+        },
+    },
+    escapeHatch: {
+        label: 'இது ஒரு உருவகப்படுத்தல்',
+    },
+    aftercare: {
+        title: 'நீங்கள் பாதுகாப்பாக இருக்கிறீர்கள். இது ஒரு உருவகப்படுத்தல்.',
+        notHacked: 'எதுவும் ஹேக் செய்யப்படவில்லை. உங்கள் சாதனம், கணக்குகள், கோப்புகள் எதுவும் தொடப்படவில்லை.',
+        noData: 'தனிப்பட்ட தரவு எதுவும் சேகரிக்கப்படவில்லை. அநாமதேய வருகை எண்ணிக்கையைத் தவிர, நீங்கள் தட்டச்சு செய்த அல்லது கிளிக் செய்த எதுவும் இந்தப் பக்கத்தை விட்டு வெளியேறவில்லை.',
+        tacticHeading: 'நீங்கள் இப்போது பார்த்தது',
+        tactics: {
+            prize: '"நீங்கள் வென்றீர்கள்!" பரிசுச் சக்கரம். நீங்கள் யோசிக்கும் முன் செயல்பட, மோசடிக்காரர்கள் நம்ப முடியாத அளவுக்கு நல்லதை வாக்களிக்கிறார்கள்.',
+            fakeFee: '"பார்சல் நிறுத்தி வைக்கப்பட்டுள்ளது" என்ற செய்தி. சிறிய கட்டணமும் காலக்கெடுவும், சரிபார்ப்பதை விடச் செலுத்துவது பாதுகாப்பானது போலத் தோன்றச் செய்கின்றன.',
+            otp: 'போலியான வங்கி எச்சரிக்கை. உண்மையான யாருக்கும் உங்கள் OTP தேவையில்லை; அது யாரிடம் உள்ளதோ அவர் உங்கள் கணக்கைக் கைப்பற்றலாம்.',
+            jobOffer: 'கனவு வேலை வாய்ப்பு. குறைந்த வேலைக்கு எளிதான பணம், பிறகு தொடங்கும் முன் ஒரு "பதிவுக் கட்டணம்".',
+            brandImpersonation: 'பிரபல பிராண்டின் பெயரில் ஒரு பரிசு. பழக்கமான சின்னம், அனுப்புநர் சம்பாதிக்காத நம்பிக்கையைக் கடன் வாங்குகிறது.',
+            fakeError: 'போலியான கணினி செயலிழப்பு. பயமுறுத்தும் பிழைத் திரைகள் ஏதோ உடைந்துவிட்டதாக நம்ப வைத்து, அவர்களின் "தீர்வை" பின்பற்றச் செய்கின்றன.',
+            fear: 'பயமும் அவமதிப்பும். நீங்கள் ஹேக் செய்யப்பட்டதாகச் சொல்வது, சரிபார்ப்பதற்குப் பதிலாகப் பதற வைக்கிறது.',
+            urgency: 'ஒரு கவுண்ட்டவுன். போலியான காலக்கெடு, யாரிடமாவது கேட்கவோ சரிபார்க்கவோ நேரமில்லாமல் உங்களை அவசரப்படுத்துகிறது.',
+            freeGift: 'ஒரு இலவசப் பரிசு. ஆச்சரியம் பற்றிய ஆர்வம், அந்நியர்களின் இணைப்புகளைக் கிளிக் செய்யவும் பொருட்களைத் திறக்கவும் தூண்டுகிறது.',
+        },
+        advice: 'உண்மையான மோசடிகளும் இதே தந்திரங்களைப் பயன்படுத்துகின்றன. ஏதாவது உங்களை அவசரப்படுத்தினால் அல்லது பயமுறுத்தினால், நிறுத்தி, நீங்கள் நம்பும் ஒருவரிடம் கேளுங்கள்.',
+        continue: 'உருவகப்படுத்தலைத் தொடரவும்',
+        exit: 'வெளியேறு',
+    },
+    ending: {
+        seeTheTruth: 'உண்மையைப் பாருங்கள்',
+        cardClicked: 'நான் கிளிக் செய்தேன்.',
+        cardConfession: 'நான் சக்கரத்தைச் சுழற்றி என் தரவைக் கொடுத்தேன்.',
+        curiosity: 'ஆர்வம்',
+        suspicion: 'சந்தேகம்',
+        caseNumber: 'வழக்கு #{number}',
+        hesitated: 'பரிசைத் திறப்பதற்கு முன் {seconds} வினாடிகள் தயங்கினார்',
+        giftsShaken: '{total} கூடுதல் பரிசுகளில் {shaken} ஐ அசைத்தார்',
+        triedToLeave: 'கவுண்ட்டவுனின் போது தப்பிக்க முயன்றார்',
+        stayed: 'கவுண்ட்டவுன் முடியும் வரை இருந்தார்',
+        titles: {
+            easyTarget: 'சான்றளிக்கப்பட்ட எளிதான இலக்கு',
+            curiousClicker: 'தொழில்முறை ஆர்வக் கிளிக்கர்',
+            cautiousClicker: 'கவனமாக இருந்தும் கிளிக் செய்தவர்',
+            scamSpotter: 'கிட்டத்தட்ட மோசடியைக் கண்டறிபவர்',
+        },
+        cardBadge: '🤡',
+        downloadCard: 'அட்டையைப் பதிவிறக்கவும்',
+        shareCard: 'அட்டையைப் பகிரவும்',
+        shareFailed: 'அட்டைப் படத்தை உருவாக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+        shareText: 'நான் ஒரு கிறிஸ்துமஸ் மோசடி உருவகப்படுத்தலில் சிக்கினேன். உங்களால் மோசடியைக் கண்டறிய முடியுமா? {link}',
+        scanToPlay: 'உங்களைச் சோதிக்க ஸ்கேன் செய்யவும்',
+        cardTemplates: {
+            square: 'பதிவு',
+            story: 'ஸ்டோரி',
+            status: 'WhatsApp status',
+        },
+        seeFinalMessage: 'இறுதிச் செய்தியைப் பாருங்கள்',
+        spotFlags: 'அபாய அறிகுறிகளைக் கண்டறியுங்கள்',
+        waitMore: 'பொறுங்கள்... இன்னும் இருக்கிறது',
+        awareness: 'விழிப்புணர்வே பாதுகாப்பு.',
+    },
+    quiz: {
+        title: 'சிறு வினாடி வினா',
+        progress: 'கேள்வி {number} / {total}',
+        true: 'சரி',
+        false: 'தவறு',
+        correct: 'சரியான பதில்!',
+        wrong: 'அப்படி இல்லை.',
+        next: 'அடுத்த கேள்வி',
+        results: 'என் மதிப்பெண்ணைக் காட்டு',
+        score: '{total} இல் {score} மதிப்பெண் பெற்றீர்கள்',
+        toCard: 'என் அட்டையைக் காட்டு',
+        skip: 'வினாடி வினாவைத் தவிர்',
+        cardScore: 'வினாடி வினா மதிப்பெண்: {score}/{total}',
+    },
+    assessment: {
+        preTitle: 'தொடங்கும் முன்: 4 சிறு கேள்விகள்',
+        postTitle: 'இறுதிச் சரிபார்ப்பு: அதே 4 கேள்விகள்',
+        intro: 'பெயர் குறிப்பிடப்படாதது, பதில்கள் காட்டப்படாது. மக்கள் என்ன கற்றுக்கொள்கிறார்கள் என்பதை அறிய இது உதவுகிறது.',
+        true: 'சரி',
+        false: 'தவறு',
+        notSure: 'தெரியவில்லை',
+        submit: 'முடிந்தது',
+        skip: 'தவிர்',
+        result: 'முன்பு: {total} இல் {before} · இப்போது: {total} இல் {after}',
+        continue: 'தொடரவும்',
+    },
+    hunt: {
+        title: 'அபாய அறிகுறி வேட்டை',
+        intro: 'இந்தத் திரையில் உங்களைச் சந்தேகப்பட வைக்க வேண்டிய அனைத்தையும் தட்டுங்கள்.',
+        progress: 'திரை {screen} / {screens} · {total} இல் {found} கண்டுபிடிக்கப்பட்டது',
+        misses: 'தவறான தட்டுகள்: {misses}',
+        next: 'அடுத்த திரை',
+        results: 'என் மதிப்பெண்ணைக் காட்டு',
+        score: '{total} அபாய அறிகுறிகளில் {found} ஐக் கண்டுபிடித்தீர்கள்',
+        missed: 'தவறவிட்டது',
+        done: 'என் அட்டைக்குத் திரும்பு',
+        flags: {
+            unexpectedPrize: {
+                label: 'நீங்கள் பங்கேற்காத போட்டியின் பரிசு',
+                explanation: 'ஒரு சுழற்சிக்கு யாரும் 50GB தருவதில்லை. நீங்கள் போட்டியில் பங்கேற்கவில்லை என்றால், நீங்கள் வெல்லவில்லை.',
+            },
+            fakeBadge: {
+                label: 'போலி "பாதுகாப்பான" முத்திரை',
+                explanation: 'பக்கத்தில் வரையப்பட்ட பூட்டு அல்லது "Secure Verification" எதையும் நிரூபிக்காது. யார் வேண்டுமானாலும் அதை ஒட்டலாம்.',
+            },
+            personalData: {
+                label: 'உங்கள் விவரங்களைக் கேட்பது',
+                explanation: 'உங்கள் பெயர், எண், சேவை வழங்குநர் ஆகியவையே மோசடிக்காரர் தேடுவது. உண்மையான பரிசுக்கு அவற்றை ஒரு பாப்-அப்பில் உள்ளிட வேண்டியதில்லை.',
+            },
+            spoofedSender: {
+                label: 'அனுப்புநராக ஒரு பழக்கமான பெயர்',
+                explanation: 'அனுப்புநர் பெயரைப் போலியாக்குவது எளிது; போலிச் செய்தி உண்மையான செய்திகள் உள்ள அதே உரையாடலிலேயே வரலாம். பெயர் மட்டும் எதையும் நிரூபிக்காது.',
+            },
+            lookalikeLink: {
+                label: 'அதிகாரப்பூர்வமாகத் தோன்றும் இணைப்பு',
+                explanation: 'இணைப்பின் தொடக்கத்தில் உள்ள நிறுவனப் பெயர் எதையும் நிரூபிக்காது: முதல் தனி "/" க்கு முன் உள்ள பகுதியே முக்கியம். அதிகாரப்பூர்வ செயலியைத் திறக்கவும் அல்லது முகவரியை நீங்களே தட்டச்சு செய்யவும்.',
+            },
+            upfrontFee: {
+                label: 'முதலில் செலுத்த வேண்டிய கட்டணம்',
+                explanation: 'சிறிய கட்டணத்தை யோசிக்காமல் செலுத்துவது எளிது, அதுவே நோக்கம். உண்மையான பார்சல்கள், வேலைகள் மற்றும் பரிசுகளுக்கு செய்தியில் உள்ள இணைப்பு மூலம் பணம் செலுத்த வேண்டியதில்லை.',
+            },
+            otpRequest: {
+                label: 'உங்கள் OTP ஐக் கேட்பது',
+                explanation: 'OTP உங்கள் கணக்கின் கடைசிப் பூட்டு. எந்தக் காரணம் சொன்னாலும், எந்த வங்கிக்கும் நிறுவனத்துக்கும் நபருக்கும் அது தேவையில்லை.',
+            },
+            scamForm: {
+                label: 'தனிப்பட்ட விவரங்களைக் கேட்கும் படிவம்',
+                explanation: 'அட்டை எண்கள், OTP, அடையாள அட்டை எண்கள் மற்றும் முகவரிகளே மோசடிக்காரர் தேடுவது. செய்தியிலிருந்து வந்த பக்கத்தில் அவற்றை ஒருபோதும் உள்ளிட வேண்டாம்.',
+            },
+            fakeCrash: {
+                label: 'இணையப் பக்கத்தில் "கணினி செயலிழப்பு"',
+                explanation: 'ஒரு இணையதளத்தால் உங்கள் தொலைபேசியையோ கணினியையோ செயலிழக்கச் செய்ய முடியாது. பக்கத்திற்குள் வரும் பயமுறுத்தும் பிழை அந்தப் பக்கத்தின் ஒரு பகுதியே.',
+            },
+            fakeTerminal: {
+                label: 'ஓடும் ஹேக்கர் எழுத்துகள்',
+                explanation: '"Root access granted" போன்ற வரிகள் அலங்காரம் மட்டுமே. உண்மையான தாக்குதல்கள் தங்களை அறிவிப்பதில்லை.',
+            },
+            countdown: {
+                label: 'கவுண்ட்டவுன்',
+                explanation: 'டைமர்கள் உங்களைச் சிந்திக்க விடாமல் தடுப்பதற்கே. மோசடி கவுண்ட்டவுன் பூஜ்ஜியத்தை அடையும் போது உண்மையில் எதுவும் நடக்காது.',
+            },
+            closeThreat: {
+                label: 'பக்கத்தை மூடினால் அச்சுறுத்தல்',
+                explanation: 'சந்தேகமான பக்கத்தை மூடுவது எப்போதும் பாதுகாப்பானது. மூட வேண்டாம் என்று சொல்லப்படுவதே நீங்கள் மூட வேண்டும் என்பதற்கான தெளிவான அடையாளம்.',
+            },
+        },
+    },
+    certificate: {
+        open: 'சான்றிதழைப் பெறுங்கள்',
+        title: 'உங்கள் "மோசடி விழிப்புணர்வு" சான்றிதழ்',
+        nameLabel: 'சான்றிதழில் தோன்ற வேண்டிய உங்கள் பெயர்',
+        namePrivacy: 'உங்கள் பெயர் எங்கும் அனுப்பப்படாது.',
+        rememberName: 'என் பெயரை இந்தச் சாதனத்தில் நினைவில் வைத்துக்கொள்',
+        paper: {
+            a4: 'A4',
+            letter: 'Letter',
+        },
+        downloadPng: 'PNG பதிவிறக்கவும்',
+        downloadPdf: 'PDF பதிவிறக்கவும்',
+        saveFailed: 'சான்றிதழைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+        close: 'என் அட்டைக்குத் திரும்பு',
+        heading: 'பங்கேற்புச் சான்றிதழ்',
+        award: 'மோசடி விழிப்புணர்வு (Scam-Aware)',
+        certifies: 'இதன் மூலம் சான்றளிக்கப்படுவது',
+        completed: 'கிறிஸ்துமஸ் மோசடி உருவகப்படுத்தலை நிறைவுசெய்து, இணையத்தில் நிதானித்து, சரிபார்த்து, தன்னைப் பாதுகாக்கக் கற்றுக்கொண்டார்.',
+        scenario: 'நிறைவுசெய்த காட்சி: {scenario}',
+        quizScore: 'வினாடி வினா மதிப்பெண்: {score} / {total}',
+        quizSkipped: 'வினாடி வினா எடுக்கப்படவில்லை',
+        date: 'தேதி',
+        number: 'சான்றிதழ் எண்',
+        issuedBy: 'புனித செர்வேஷியஸ் கல்லூரியின் லியோ கழகம்',
+        scenarios: {
+            dataWheel: 'கிறிஸ்துமஸ் பரிசுச் சக்கரம்',
+            courier: 'போலி கூரியர் விநியோகம்',
+            bankOtp: 'வங்கி OTP கோரிக்கை',
+            jobOffer: 'போலி வேலை வாய்ப்பு',
+            giveaway: 'பிராண்ட் பரிசு வழங்கல்',
+            loyaltyWheel: 'போலி விசுவாசப் பரிசுச் சக்கரம்',
+        },
+    },
+    gentle: {
+        splash: {
+            youFool: 'அச்சச்சோ!',
+            youClickedTheScam: 'அது ஒரு மோசடி.',
+            deviceHacked: 'கவலைப்பட வேண்டாம், இது ஒரு பாடம் மட்டுமே. உங்கள் சாதனம் பாதுகாப்பாக உள்ளது.',
+            closeWarning: 'உண்மையான மோசடிக்காரர்கள் இப்படித்தான் அவசரப்படுத்துவார்கள். நிதானியுங்கள்: எப்போது வேண்டுமானாலும் பக்கத்தை மூடலாம்.',
+        },
+        ending: {
+            cardClicked: 'நான் ஒன்று கற்றுக்கொண்டேன்.',
+            cardConfession: 'நான் சக்கரத்தைச் சுழற்றினேன். அடுத்த முறை நிறுத்தி சரிபார்ப்பேன்.',
+            titles: {
+                easyTarget: 'மோசடியைக் கண்டறியப் பயிற்சி பெறுபவர்',
+                curiousClicker: 'நிதானிக்கக் கற்றுக்கொள்பவர்',
+                cautiousClicker: 'கவனமாகி வருபவர்',
+                scamSpotter: 'கிட்டத்தட்ட மோசடியைக் கண்டறிபவர்',
+            },
+            cardBadge: '🎓',
+        },
+    },
+};
+
+export const MESSAGES: Record<Locale, Messages> = { en, si, ta };
+
+/** The catalog with the copy of `tone` swapped in */
+export function withTone(messages: Messages, tone: Tone): Messages {
+    if (tone === 'standard') return messages;
+    return {
+        ...messages,
+        splash: { ...messages.splash, ...messages.gentle.splash },
+        ending: { ...messages.ending, ...messages.gentle.ending },
+    };
+}
+
+/** Fills `{placeholders}` in a message */
+export const formatMessage = (template: string, values: Record<string, string>) =>
+    template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
@@ -2,15 +2,19 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { Dashboard } from './components/Dashboard.tsx'
 
 /**
  * Entry Point
  * 
  * Mounts the React application to the DOM.
  * Wraps the App in StrictMode for development checks.
+ * `?admin` opens the facilitator dashboard instead of the experience.
  */
+const isAdmin = new URLSearchParams(window.location.search).has('admin')
+
 createRoot(document.getElementById('root')!).render(
     <StrictMode>
-        <App />
+        {isAdmin ? <Dashboard /> : <App />}
     </StrictMode>,
 )
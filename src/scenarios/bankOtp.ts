@@ -0,0 +1,44 @@
+import { messageBait } from '../components/baits/MessageBait';
+import type { ScenarioDefinition } from './types';
+
+/** A fake "new device signed in" bank alert that asks for the OTP */
+export const BANK_OTP: ScenarioDefinition = {
+    id: 'bankOtp',
+    Bait: messageBait('bankOtp', { icon: '🏦', accent: 'bg-blue-700', channel: 'sms', demandFlag: 'otpRequest' }),
+    background: 'bg-gradient-to-b from-slate-900 to-blue-950',
+    tactic: 'otp',
+    redFlags: ['spoofedSender', 'lookalikeLink', 'otpRequest', 'scamForm'],
+    baitCues: [
+        { at: 0.5, type: 'sound', sound: { src: '/message.mp3', volume: 0.6 } },
+        { at: 4, type: 'baitFinished', stage: 'spin_finished' },
+        { at: 7, type: 'sound', sound: { src: '/error.mp3', volume: 0.5 } },
+    ],
+    reveal: [
+        {
+            id: 'bank-otp',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                { style: 'kicker', text: { en: 'OTP theft', si: 'OTP සොරකම', ta: 'OTP திருட்டு' } },
+                {
+                    style: 'title',
+                    text: {
+                        en: 'One-time passwords are for you only.',
+                        si: 'එක් වරක් භාවිත මුරපද (OTP) ඔබට පමණි.',
+                        ta: 'ஒருமுறை கடவுச்சொற்கள் (OTP) உங்களுக்கு மட்டுமே.',
+                    },
+                },
+                {
+                    style: 'lead',
+                    delay: 1.5,
+                    text: {
+                        en: 'No bank, courier or official will **ever** ask for one.',
+                        si: 'කිසිදු බැංකුවක්, කුරියර් සේවාවක් හෝ නිලධාරියෙක් එය **කිසිදා** ඉල්ලන්නේ නැත.',
+                        ta: 'எந்த வங்கியும், கூரியரும், அதிகாரியும் அதை **ஒருபோதும்** கேட்க மாட்டார்கள்.',
+                    },
+                },
+            ],
+        },
+    ],
+    confession: t => t.baits.bankOtp.confession,
+};
@@ -0,0 +1,47 @@
+import { messageBait } from '../components/baits/MessageBait';
+import type { ScenarioDefinition } from './types';
+
+/** A "parcel held at customs" SMS asking for a small clearance fee */
+export const COURIER: ScenarioDefinition = {
+    id: 'courier',
+    Bait: messageBait('courier', { icon: '📦', accent: 'bg-amber-500', channel: 'sms', demandFlag: 'upfrontFee' }),
+    background: 'bg-gradient-to-b from-slate-800 to-amber-900',
+    tactic: 'fakeFee',
+    redFlags: ['spoofedSender', 'lookalikeLink', 'upfrontFee', 'scamForm'],
+    baitCues: [
+        { at: 0.5, type: 'sound', sound: { src: '/message.mp3', volume: 0.6 } },
+        { at: 4, type: 'baitFinished', stage: 'spin_finished' },
+        { at: 7, type: 'sound', sound: { src: '/error.mp3', volume: 0.5 } },
+    ],
+    reveal: [
+        {
+            id: 'courier',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                {
+                    style: 'kicker',
+                    text: { en: 'Fake delivery notices', si: 'ව්‍යාජ පාර්සල් දැනුම්දීම්', ta: 'போலி விநியோக அறிவிப்புகள்' },
+                },
+                {
+                    style: 'title',
+                    text: {
+                        en: "Couriers don't ask for fees through SMS links.",
+                        si: 'කුරියර් සේවා SMS සබැඳි හරහා ගාස්තු ඉල්ලන්නේ නැත.',
+                        ta: 'கூரியர் நிறுவனங்கள் SMS இணைப்புகள் மூலம் கட்டணம் கேட்பதில்லை.',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 1.5,
+                    text: {
+                        en: 'Type the tracking number into the official website yourself.',
+                        si: 'ලුහුබැඳීමේ අංකය (tracking number) නිල වෙබ් අඩවියට ඔබම ඇතුළත් කරන්න.',
+                        ta: 'கண்காணிப்பு எண்ணை (tracking number) அதிகாரப்பூர்வ இணையதளத்தில் நீங்களே உள்ளிடுங்கள்.',
+                    },
+                },
+            ],
+        },
+    ],
+    confession: t => t.baits.courier.confession,
+};
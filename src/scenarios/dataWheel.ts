@@ -0,0 +1,20 @@
+import { wheelBait } from '../components/baits/WheelBait';
+import { DATA_WHEEL_SPINNER } from '../content/spinnerThemes';
+import type { ScenarioDefinition } from './types';
+
+/** The original bait: a "Spin to Win 50GB" data wheel. The cinematic needs no extra slides for it. */
+export const DATA_WHEEL: ScenarioDefinition = {
+    id: 'dataWheel',
+    Bait: wheelBait(DATA_WHEEL_SPINNER),
+    background: 'bg-gradient-to-b from-purple-900 to-indigo-900',
+    tactic: 'prize',
+    redFlags: ['unexpectedPrize', 'fakeBadge', 'personalData'],
+    baitCues: [
+        { at: 0, type: 'sound', sound: { src: '/spin.mp3', volume: 0.5 } },
+        { at: 5, type: 'baitFinished', stage: 'spin_finished' },
+        // Win sound, then immediately the error sound
+        { at: 5, type: 'sound', sound: { src: '/win.mp3', volume: 0.5 }, then: { src: '/error.mp3', volume: 0.5 } },
+    ],
+    reveal: [],
+    confession: t => t.ending.cardConfession,
+};
@@ -0,0 +1,47 @@
+import { messageBait } from '../components/baits/MessageBait';
+import type { ScenarioDefinition } from './types';
+
+/** A supermarket "anniversary giveaway" shared on chat groups, with a delivery fee */
+export const GIVEAWAY: ScenarioDefinition = {
+    id: 'giveaway',
+    Bait: messageBait('giveaway', { icon: '🎁', accent: 'bg-red-600', channel: 'chat', demandFlag: 'upfrontFee' }),
+    background: 'bg-gradient-to-b from-rose-900 to-red-950',
+    tactic: 'brandImpersonation',
+    redFlags: ['spoofedSender', 'lookalikeLink', 'upfrontFee', 'scamForm'],
+    baitCues: [
+        { at: 0.5, type: 'sound', sound: { src: '/message.mp3', volume: 0.6 } },
+        { at: 4, type: 'baitFinished', stage: 'spin_finished' },
+        { at: 4, type: 'sound', sound: { src: '/win.mp3', volume: 0.5 }, then: { src: '/error.mp3', volume: 0.5 } },
+    ],
+    reveal: [
+        {
+            id: 'giveaway',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                {
+                    style: 'kicker',
+                    text: { en: 'Brand impersonation', si: 'සන්නාම වෙස්ගැනීම', ta: 'வர்த்தகநாம ஆள்மாறாட்டம்' },
+                },
+                {
+                    style: 'title',
+                    text: {
+                        en: 'A famous logo is easy to copy.',
+                        si: 'ප්‍රසිද්ධ ලාංඡනයක් පිටපත් කිරීම පහසුය.',
+                        ta: 'பிரபலமான லோகோவை நகலெடுப்பது எளிது.',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 1.5,
+                    text: {
+                        en: "Check the brand's official page before you share, pay or type anything.",
+                        si: 'බෙදාගැනීමට, ගෙවීමට හෝ කිසිවක් ඇතුළත් කිරීමට පෙර සන්නාමයේ නිල පිටුව පරීක්ෂා කරන්න.',
+                        ta: 'பகிர்வதற்கு, பணம் செலுத்துவதற்கு அல்லது எதையும் உள்ளிடுவதற்கு முன் அந்த நிறுவனத்தின் அதிகாரப்பூர்வ பக்கத்தைச் சரிபாருங்கள்.',
+                    },
+                },
+            ],
+        },
+    ],
+    confession: t => t.baits.giveaway.confession,
+};
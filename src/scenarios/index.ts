@@ -0,0 +1,2 @@
+export { SCENARIOS, currentScenario, withReveal } from './scenarios';
+export type { BaitProps, ScenarioDefinition, ScenarioId } from './types';
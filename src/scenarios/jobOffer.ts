@@ -0,0 +1,44 @@
+import { messageBait } from '../components/baits/MessageBait';
+import type { ScenarioDefinition } from './types';
+
+/** A part-time "like videos from home" job offer with a registration fee */
+export const JOB_OFFER: ScenarioDefinition = {
+    id: 'jobOffer',
+    Bait: messageBait('jobOffer', { icon: '💼', accent: 'bg-emerald-600', channel: 'chat', demandFlag: 'upfrontFee' }),
+    background: 'bg-gradient-to-b from-slate-900 to-emerald-950',
+    tactic: 'jobOffer',
+    redFlags: ['spoofedSender', 'lookalikeLink', 'upfrontFee', 'scamForm'],
+    baitCues: [
+        { at: 0.5, type: 'sound', sound: { src: '/message.mp3', volume: 0.6 } },
+        { at: 4, type: 'baitFinished', stage: 'spin_finished' },
+        { at: 7, type: 'sound', sound: { src: '/error.mp3', volume: 0.5 } },
+    ],
+    reveal: [
+        {
+            id: 'job-offer',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                { style: 'kicker', text: { en: 'Job scams', si: 'රැකියා වංචා', ta: 'வேலை மோசடிகள்' } },
+                {
+                    style: 'title',
+                    text: {
+                        en: 'Real employers pay you. They never charge you to start.',
+                        si: 'සැබෑ සේවා යෝජකයන් ඔබට ගෙවයි. වැඩ ආරම්භ කිරීමට ඔවුන් කිසිදා මුදල් අය කරන්නේ නැත.',
+                        ta: 'உண்மையான முதலாளிகள் உங்களுக்குச் சம்பளம் தருவார்கள். வேலையைத் தொடங்க ஒருபோதும் கட்டணம் வசூலிக்க மாட்டார்கள்.',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 1.5,
+                    text: {
+                        en: 'Easy money for liking videos is the bait.',
+                        si: 'වීඩියෝවලට ලයික් කිරීමෙන් ලැබෙන පහසු මුදල් යනු ඇමයයි.',
+                        ta: 'வீடியோக்களை லைக் செய்து எளிதாகப் பணம் சம்பாதிப்பதே தூண்டில்.',
+                    },
+                },
+            ],
+        },
+    ],
+    confession: t => t.baits.jobOffer.confession,
+};
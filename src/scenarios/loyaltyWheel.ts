@@ -0,0 +1,45 @@
+import { wheelBait } from '../components/baits/WheelBait';
+import { LOYALTY_SPINNER } from '../content/spinnerThemes';
+import type { ScenarioDefinition } from './types';
+
+/** A "smarter" prize wheel in a mobile operator's calm colours, posing as a member reward */
+export const LOYALTY_WHEEL: ScenarioDefinition = {
+    id: 'loyaltyWheel',
+    Bait: wheelBait(LOYALTY_SPINNER),
+    background: 'bg-gradient-to-b from-slate-900 to-blue-950',
+    tactic: 'brandImpersonation',
+    redFlags: ['unexpectedPrize', 'fakeBadge', 'personalData'],
+    baitCues: [
+        { at: 0, type: 'sound', sound: { src: '/spin.mp3', volume: 0.5 } },
+        { at: 5, type: 'baitFinished', stage: 'spin_finished' },
+        { at: 5, type: 'sound', sound: { src: '/win.mp3', volume: 0.5 }, then: { src: '/error.mp3', volume: 0.5 } },
+    ],
+    reveal: [
+        {
+            id: 'loyalty-wheel',
+            layout: 'headline',
+            duration: 6,
+            lines: [
+                { style: 'kicker', text: { en: 'Polished scams', si: 'ඔප දැමූ වංචා', ta: 'மெருகூட்டப்பட்ட மோசடிகள்' } },
+                {
+                    style: 'title',
+                    text: {
+                        en: 'An official look proves nothing.',
+                        si: 'නිල පෙනුමක් කිසිවක් ඔප්පු නොකරයි.',
+                        ta: 'அதிகாரப்பூர்வத் தோற்றம் எதையும் நிரூபிக்காது.',
+                    },
+                },
+                {
+                    style: 'body',
+                    delay: 1.5,
+                    text: {
+                        en: 'Calm colours and a "partner" badge are as easy to copy as a logo. Check offers in the operator\'s own app.',
+                        si: 'සන්සුන් වර්ණ සහ "හවුල්කාර" සලකුණක් ලෝගෝවක් තරම්ම පහසුවෙන් පිටපත් කළ හැක. දීමනා ජාල සමාගමේම යෙදුමෙන් පරීක්ෂා කරන්න.',
+                        ta: 'அமைதியான நிறங்களும் "கூட்டாளர்" முத்திரையும் ஒரு லோகோவைப் போலவே எளிதாக நகலெடுக்கப்படலாம். சலுகைகளை நிறுவனத்தின் சொந்தச் செயலியில் சரிபார்க்கவும்.',
+                    },
+                },
+            ],
+        },
+    ],
+    confession: t => t.spinner.loyalty.confession,
+};
@@ -0,0 +1,43 @@
+import type { Script } from '../content/script';
+import { DATA_WHEEL } from './dataWheel';
+import { COURIER } from './courier';
+import { BANK_OTP } from './bankOtp';
+import { JOB_OFFER } from './jobOffer';
+import { GIVEAWAY } from './giveaway';
+import { LOYALTY_WHEEL } from './loyaltyWheel';
+import type { ScenarioDefinition, ScenarioId } from './types';
+
+/**
+ * Every scam story the simulation can tell.
+ *
+ * A facilitator picks one with `?scenario=courier` in the link; without it (or
+ * with an unknown id) the original data wheel plays. The choice lasts for the
+ * page load, so the same link always shows the same scam.
+ */
+export const SCENARIOS: Record<ScenarioId, ScenarioDefinition> = {
+    dataWheel: DATA_WHEEL,
+    courier: COURIER,
+    bankOtp: BANK_OTP,
+    jobOffer: JOB_OFFER,
+    giveaway: GIVEAWAY,
+    loyaltyWheel: LOYALTY_WHEEL,
+};
+
+const isScenarioId = (value: unknown): value is ScenarioId => Object.keys(SCENARIOS).some(id => id === value);
+
+function readScenario(): ScenarioDefinition {
+    const fromLink = new URLSearchParams(window.location.search).get('scenario');
+    return isScenarioId(fromLink) ? SCENARIOS[fromLink] : DATA_WHEEL;
+}
+
+/** The scenario of this page load */
+export const currentScenario = readScenario();
+
+/** Slide the scenario's reveal follows in the cinematic */
+const REVEAL_AFTER = 'clickbait';
+
+/** `script` with the scenario's reveal slides inserted after the general "clickbait" slide */
+export function withReveal(script: Script, scenario: ScenarioDefinition): Script {
+    const at = script.slides.findIndex(slide => slide.id === REVEAL_AFTER) + 1;
+    return { ...script, slides: [...script.slides.slice(0, at), ...scenario.reveal, ...script.slides.slice(at)] };
+}
@@ -0,0 +1,39 @@
+import type { ComponentType } from 'react';
+import type { Messages } from '../i18n';
+import type { ScriptSlide } from '../content/script';
+import type { SplashCue } from '../content/splashCues';
+import type { RedFlagId } from '../content/redFlags';
+import type { ScamTactic } from '../content/tactics';
+
+export type ScenarioId = 'dataWheel' | 'courier' | 'bankOtp' | 'jobOffer' | 'giveaway' | 'loyaltyWheel';
+
+export interface BaitProps {
+    /** Whether the splash has started; the bait is already rendered behind the start gate */
+    started: boolean;
+    /** Whether the bait's hook has landed (the `baitFinished` cue) */
+    hooked: boolean;
+    /** Starts in its final state instead of animating into it (for the red-flag hunt) */
+    frozen?: boolean;
+}
+
+/**
+ * One scam story. The splash plays its bait as scene 1, then the shared fake
+ * hack; the cinematic adds its reveal slides and the roast card its confession.
+ */
+export interface ScenarioDefinition {
+    id: ScenarioId;
+    /** Scene 1 of the splash */
+    Bait: ComponentType<BaitProps>;
+    /** Tailwind background classes behind the bait */
+    background: string;
+    /** What the bait demonstrates, explained on the aftercare screen */
+    tactic: ScamTactic;
+    /** Red flags the bait marks with `RedFlag`, in reading order, for the red-flag hunt */
+    redFlags: RedFlagId[];
+    /** Sounds and the hook of the bait, all before BAIT_DURATION */
+    baitCues: SplashCue[];
+    /** Cinematic slides about this scam, played after the general "clickbait" slide */
+    reveal: ScriptSlide[];
+    /** Roast card line */
+    confession: (t: Messages) => string;
+}
@@ -0,0 +1,44 @@
+/**
+ * What the participant did during this play, for the roast card.
+ *
+ * Kept in memory only (a play is one page load) and never sent anywhere;
+ * the stats backend gets its own anonymous counters.
+ */
+
+export interface SessionBehaviour {
+    /** Seconds between the main gift landing and the participant opening it */
+    hesitation: number | null;
+    /** Indexes of the extra gifts that were shaken */
+    shakenGifts: number[];
+    /** Whether they used the escape hatch or left the tab while the countdown threatened them */
+    triedToLeave: boolean;
+}
+
+let giftOfferedAt: number | null = null;
+const behaviour: SessionBehaviour = {
+    hesitation: null,
+    shakenGifts: [],
+    triedToLeave: false,
+};
+
+/** The main gift has landed and can be clicked */
+export function markGiftOffered() {
+    giftOfferedAt ??= performance.now();
+}
+
+/** The main gift was opened; only the first opening counts */
+export function markGiftOpened() {
+    if (giftOfferedAt === null || behaviour.hesitation !== null) return;
+    behaviour.hesitation = (performance.now() - giftOfferedAt) / 1000;
+}
+
+export function markGiftShaken(index: number) {
+    if (!behaviour.shakenGifts.includes(index)) behaviour.shakenGifts.push(index);
+}
+
+export function markLeaveAttempt() {
+    behaviour.triedToLeave = true;
+}
+
+/** A snapshot of the play so far */
+export const getBehaviour = (): SessionBehaviour => ({ ...behaviour, shakenGifts: [...behaviour.shakenGifts] });
@@ -0,0 +1,9 @@
+export {
+    markGiftOffered,
+    markGiftOpened,
+    markGiftShaken,
+    markLeaveAttempt,
+    getBehaviour,
+    type SessionBehaviour,
+} from './behaviour';
+export { computeRoastCard, type RoastCard, type RoastInput, type RoastTier } from './roastCard';
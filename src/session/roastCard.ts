@@ -0,0 +1,69 @@
+import type { SessionBehaviour } from './behaviour';
+
+/** Title tiers of the roast card, from most to least trusting */
+export type RoastTier = 'easyTarget' | 'curiousClicker' | 'cautiousClicker' | 'scamSpotter';
+
+export interface RoastCard {
+    /** e.g. `A3-4821`, derived from the play id */
+    caseNumber: string;
+    /** 0-95 */
+    suspicion: number;
+    /** 5-100, the rest of the suspicion */
+    curiosity: number;
+    tier: RoastTier;
+}
+
+export interface RoastInput {
+    behaviour: SessionBehaviour;
+    /** Number of extra gifts on offer */
+    extraGifts: number;
+    /** Correct quiz answers and the number of questions; score is null when the quiz was skipped */
+    quiz: { score: number | null; total: number };
+    playId: string;
+}
+
+/** Hesitating this long before opening the gift earns the full hesitation points */
+const FULL_HESITATION = 10;
+
+/**
+ * Points per behaviour, adding up to 100:
+ * hesitating before the gift, leaving the extra gifts alone, trying to leave
+ * during the countdown, and answering the quiz correctly.
+ */
+const WEIGHTS = { hesitation: 35, gifts: 20, leave: 20, quiz: 25 };
+/** Everyone who reaches the card opened the gift, so suspicion stops short of the full 100 */
+const MAX_SUSPICION = 95;
+
+/** Lowest suspicion of each tier, checked from the top */
+const TIERS: [number, RoastTier][] = [
+    [75, 'scamSpotter'],
+    [50, 'cautiousClicker'],
+    [25, 'curiousClicker'],
+];
+
+const caseNumber = (playId: string) =>
+    `${playId.slice(0, 2).toUpperCase()}-${String(parseInt(playId.slice(2, 6), 16) % 10000).padStart(4, '0')}`;
+
+/**
+ * Scores the play. Suspicion is capped at MAX_SUSPICION, so even the most
+ * careful player keeps some curiosity.
+ */
+export function computeRoastCard({ behaviour, extraGifts, quiz, playId }: RoastInput): RoastCard {
+    const hesitation = Math.min((behaviour.hesitation ?? 0) / FULL_HESITATION, 1);
+    const giftsLeftAlone = extraGifts > 0 ? 1 - behaviour.shakenGifts.length / extraGifts : 0;
+    const quizShare = quiz.score !== null && quiz.total > 0 ? quiz.score / quiz.total : 0;
+
+    const suspicion = Math.min(MAX_SUSPICION, Math.round(
+        hesitation * WEIGHTS.hesitation
+        + giftsLeftAlone * WEIGHTS.gifts
+        + (behaviour.triedToLeave ? WEIGHTS.leave : 0)
+        + quizShare * WEIGHTS.quiz,
+    ));
+
+    return {
+        caseNumber: caseNumber(playId),
+        suspicion,
+        curiosity: 100 - suspicion,
+        tier: TIERS.find(([min]) => suspicion >= min)?.[1] ?? 'easyTarget',
+    };
+}
@@ -0,0 +1,2 @@
+export { campaignUrl, campaignQrCode, renderToImage, downloadFile, canShareFiles, shareCard } from './share';
+export { CARD_TEMPLATES, type CardTemplate, type CardTemplateId, type RenderSize } from './templates';
@@ -0,0 +1,86 @@
+import html2canvas from 'html2canvas';
+import { toDataURL } from 'qrcode';
+import type { RenderSize } from './templates';
+
+/**
+ * Saving and sharing the roast card.
+ *
+ * On phones the card goes through the Web Share API as an image file, so it can
+ * be posted straight to a story or a WhatsApp status; elsewhere it is downloaded.
+ * The certificate (`src/certificate/`) goes through the same renderer.
+ */
+
+/**
+ * The link the card's QR code and share text point to: `VITE_CAMPAIGN_URL`, or
+ * this page without its parameters, so the sharer's cohort and settings stay behind.
+ */
+export const campaignUrl = import.meta.env.VITE_CAMPAIGN_URL || `${window.location.origin}${window.location.pathname}`;
+
+/** QR code of the campaign link as a PNG data URL */
+export const campaignQrCode = () => toDataURL(campaignUrl, { margin: 1, width: 256, errorCorrectionLevel: 'M' });
+
+/**
+ * Loads the font files the element's text needs, in both weights the card uses.
+ * The Sinhala and Tamil files only download once text in those scripts is laid
+ * out, and html2canvas would draw fallback glyphs in the meantime.
+ */
+const loadFonts = (element: HTMLElement) => {
+    const { fontFamily } = getComputedStyle(element);
+    const text = element.textContent ?? '';
+    return Promise.all(['400', '700'].map(weight => document.fonts.load(`${weight} 16px ${fontFamily}`, text)));
+};
+
+/** Renders an element laid out at `size` (the roast card, the certificate) to a PNG */
+export async function renderToImage(element: HTMLElement, size: RenderSize) {
+    await loadFonts(element);
+    await document.fonts.ready;
+    const canvas = await html2canvas(element, {
+        backgroundColor: null,
+        scale: size.imageWidth / size.width,
+        width: size.width,
+        height: size.height,
+    });
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render the image'))), 'image/png');
+    });
+}
+
+/** Saves a file through a temporary download link */
+export function downloadFile(file: Blob, fileName: string) {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const asFile = (image: Blob, fileName: string) => new File([image], fileName, { type: 'image/png' });
+
+/** Whether this browser can share image files (most phones), rather than only download them */
+export function canShareFiles() {
+    try {
+        return navigator.canShare?.({ files: [asFile(new Blob(), 'card.png')] }) ?? false;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Shares the card with the share sheet where files can be shared, or downloads it.
+ * Call it straight from a tap: browsers only open the share sheet during a user gesture.
+ */
+export async function shareCard(image: Blob, fileName: string, text: string): Promise<'shared' | 'downloaded' | 'cancelled'> {
+    const file = asFile(image, fileName);
+    if (navigator.canShare?.({ files: [file] })) {
+        try {
+            await navigator.share({ files: [file], text });
+            return 'shared';
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+            // Share sheet unavailable after all (e.g. the gesture expired): download instead
+        }
+    }
+    downloadFile(image, fileName);
+    return 'downloaded';
+}
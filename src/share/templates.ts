@@ -0,0 +1,30 @@
+/** Layouts the roast card can be saved or shared in */
+export type CardTemplateId = 'square' | 'story' | 'status';
+
+/** Size of an element rendered to an image */
+export interface RenderSize {
+    /** Size the element is laid out at, in CSS pixels */
+    width: number;
+    height: number;
+    /** Width of the saved image in pixels; the height follows the aspect ratio */
+    imageWidth: number;
+}
+
+export interface CardTemplate extends RenderSize {
+    id: CardTemplateId;
+    /** `dark` suits full-screen viewers that show the card on black */
+    theme: 'light' | 'dark';
+    fileName: string;
+}
+
+export const CARD_TEMPLATES: Record<CardTemplateId, CardTemplate> = {
+    /** Feed post, 1080 × 1080 */
+    square: { id: 'square', width: 480, height: 480, imageWidth: 1080, theme: 'light', fileName: 'christmas-scam-roast.png' },
+    /** 9:16 story, 1080 × 1920 */
+    story: { id: 'story', width: 360, height: 640, imageWidth: 1080, theme: 'light', fileName: 'christmas-scam-roast-story.png' },
+    /**
+     * WhatsApp status, 720 × 1280: WhatsApp recompresses anything larger,
+     * and its status viewer frames the image in black.
+     */
+    status: { id: 'status', width: 360, height: 640, imageWidth: 720, theme: 'dark', fileName: 'christmas-scam-roast-status.png' },
+};
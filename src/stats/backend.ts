@@ -0,0 +1,74 @@
+import type { StatsBackend, StatsBackendKind, StatsConfig } from './types';
+import { createCounterApiBackend } from './counterApiBackend';
+import { createServerBackend } from './serverBackend';
+import { createLocalBackend } from './localBackend';
+import { createCohortBackend, readCohort } from './cohort';
+import { createDailyBackend } from './daily';
+import { createQueuedBackend } from './queue';
+import { STAT_KEYS } from './keys';
+
+const DEFAULT_COUNTERAPI_URL = 'https://api.counterapi.dev/v1/christmas-scam-leoclub';
+const DEFAULT_SERVER_URL = '/api';
+
+/**
+ * Reads the backend selection from the Vite environment.
+ *
+ * - `VITE_STATS_BACKEND`: `counterapi` (default), `server`, `local` or `memory`
+ * - `VITE_STATS_URL`: overrides the base URL of `counterapi` / `server`
+ */
+export function readStatsConfig(): StatsConfig {
+    const kind = (import.meta.env.VITE_STATS_BACKEND || 'counterapi') as StatsBackendKind;
+    const fallbackUrl = kind === 'server' ? DEFAULT_SERVER_URL : DEFAULT_COUNTERAPI_URL;
+    return { kind, url: import.meta.env.VITE_STATS_URL || fallbackUrl };
+}
+
+/**
+ * Creates the backend described by `config`.
+ * Unknown kinds fall back to counterapi so a typo never breaks the experience.
+ */
+export function createStatsBackend(config: StatsConfig = readStatsConfig()): StatsBackend {
+    switch (config.kind) {
+        case 'server':
+            return createServerBackend(config.url.replace(/\/$/, ''));
+        case 'local':
+            return createLocalBackend(window.localStorage);
+        case 'memory':
+            return createLocalBackend(null);
+        case 'counterapi':
+            return createCounterApiBackend(config.url.replace(/\/$/, ''));
+        default:
+            console.warn(`Unknown stats backend "${config.kind}", using counterapi`);
+            return createCounterApiBackend(DEFAULT_COUNTERAPI_URL);
+    }
+}
+
+const config = readStatsConfig();
+
+/**
+ * Unscoped backend, for reports that look across cohorts.
+ * Remote backends get a persistent retry queue in front of them.
+ */
+export const baseBackend = config.kind !== 'local' && config.kind !== 'memory'
+    ? createQueuedBackend(createStatsBackend(config), window.localStorage)
+    : createStatsBackend(config);
+
+/** Cohort of the current link (`?cohort=` / `?campaign=`), if any */
+export const currentCohort = readCohort();
+
+/**
+ * App-wide backend instance, scoped to the current cohort.
+ * Headline counters additionally get a per-day copy for the dashboard's time series.
+ */
+export const statsBackend = createDailyBackend(
+    createCohortBackend(baseBackend, currentCohort),
+    Object.values(STAT_KEYS),
+);
+
+/**
+ * Like `statsBackend`, but increments only the cohort's copy (null without a cohort).
+ * For unique milestones a device already reached overall, in another cohort.
+ */
+export const cohortOnlyBackend = currentCohort && createDailyBackend(
+    createCohortBackend(baseBackend, currentCohort, false),
+    Object.values(STAT_KEYS),
+);
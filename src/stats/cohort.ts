@@ -0,0 +1,68 @@
+import type { StatsBackend } from './types';
+
+/**
+ * A group of participants that received the same link,
+ * e.g. one school class or one WhatsApp group.
+ */
+export interface Cohort {
+    /** Key-safe slug used in counter names, e.g. `grade-10-b` */
+    id: string;
+    /** Name as written in the link, e.g. `Grade 10-B` */
+    label: string;
+}
+
+/** Turns any label into a counter-key-safe slug */
+export const slugifyCohort = (label: string) =>
+    label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+
+/**
+ * Reads the cohort from `?cohort=` (or its alias `?campaign=`).
+ * Returns null when the link has no usable cohort.
+ */
+export function readCohort(search = window.location.search): Cohort | null {
+    const params = new URLSearchParams(search);
+    const label = (params.get('cohort') || params.get('campaign') || '').trim().slice(0, 40);
+    const id = slugifyCohort(label);
+    return id ? { id, label } : null;
+}
+
+/** Counter key of `key` inside a cohort, e.g. `cohort-grade-10-b--visits` */
+export const cohortKey = (cohortId: string, key: string) => `cohort-${cohortId}--${key}`;
+
+/**
+ * Wraps a backend so every counter is scoped to a cohort.
+ *
+ * Increments go to both the global counter and the cohort's copy, so the
+ * overall totals stay complete; with `mirrorGlobal` off only the cohort's copy
+ * is raised. Reads only look at the cohort's numbers.
+ */
+export function createCohortBackend(backend: StatsBackend, cohort: Cohort | null, mirrorGlobal = true): StatsBackend {
+    if (!cohort) return backend;
+
+    const scoped = (key: string) => cohortKey(cohort.id, key);
+
+    return {
+        name: `${backend.name}:${cohort.id}`,
+
+        async increment(key) {
+            if (!mirrorGlobal) return backend.increment(scoped(key));
+            const [, count] = await Promise.all([backend.increment(key), backend.increment(scoped(key))]);
+            return count;
+        },
+
+        read: key => backend.read(scoped(key)),
+
+        async readMany(keys) {
+            const counts = await backend.readMany(keys.map(scoped));
+            return Object.fromEntries(keys.map(key => [key, counts[scoped(key)] ?? 0]));
+        },
+
+        subscribe: backend.subscribe && ((keys, onChange) => {
+            const byScopedKey = new Map(keys.map(key => [scoped(key), key]));
+            return backend.subscribe!([...byScopedKey.keys()], (key, count) => {
+                const plainKey = byScopedKey.get(key);
+                if (plainKey) onChange(plainKey, count);
+            });
+        }),
+    };
+}
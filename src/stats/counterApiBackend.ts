@@ -0,0 +1,57 @@
+import type { StatsBackend } from './types';
+
+/** Reads in flight at once: a dashboard report asks for about a hundred counters per cohort */
+const MAX_PARALLEL_READS = 6;
+
+/**
+ * Backend for the public https://counterapi.dev service.
+ *
+ * `baseUrl` already contains the namespace, e.g.
+ * `https://api.counterapi.dev/v1/christmas-scam-leoclub`.
+ * The service has no batch endpoint, so `readMany` fans out, at most
+ * MAX_PARALLEL_READS requests at a time across the whole backend.
+ */
+export function createCounterApiBackend(baseUrl: string): StatsBackend {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    /** Runs `task` once fewer than MAX_PARALLEL_READS reads are in flight */
+    const throttled = async <T>(task: () => Promise<T>) => {
+        if (active < MAX_PARALLEL_READS) active++;
+        // A finishing read hands its slot straight over
+        else await new Promise<void>(resolve => waiting.push(resolve));
+        try {
+            return await task();
+        } finally {
+            const next = waiting.shift();
+            if (next) next();
+            else active--;
+        }
+    };
+
+    const read = (key: string) => throttled(async () => {
+        const res = await fetch(`${baseUrl}/${key}`);
+        // counterapi answers with an error body for counters that were never incremented
+        if (!res.ok) return null;
+        const data = await res.json();
+        return typeof data.count === 'number' ? data.count : null;
+    });
+
+    return {
+        name: 'counterapi',
+
+        async increment(key) {
+            // keepalive lets the request finish even if the page reloads right after
+            const res = await fetch(`${baseUrl}/${key}/up`, { keepalive: true });
+            const data = await res.json();
+            return typeof data.count === 'number' ? data.count : null;
+        },
+
+        read,
+
+        async readMany(keys) {
+            const values = await Promise.all(keys.map(read));
+            return Object.fromEntries(keys.map((key, i) => [key, values[i] ?? 0]));
+        },
+    };
+}
@@ -0,0 +1,40 @@
+import type { StatsBackend } from './types';
+
+/** Local calendar day of `date` as `YYYY-MM-DD` */
+export const toDayString = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Counter key of `key` for one day, e.g. `day-2025-12-24--visits` */
+export const dayKey = (day: string, key: string) => `day-${day}--${key}`;
+
+/** The last `count` days, oldest first, ending today */
+export function lastDays(count: number, today = new Date()) {
+    return Array.from({ length: count }, (_, i) => {
+        const date = new Date(today);
+        date.setDate(today.getDate() - (count - 1 - i));
+        return toDayString(date);
+    });
+}
+
+/**
+ * Wraps a backend so that increments of `trackedKeys` also bump a per-day copy.
+ * That gives every backend a daily time series without server support.
+ * Reads are passed through unchanged.
+ */
+export function createDailyBackend(backend: StatsBackend, trackedKeys: readonly string[]): StatsBackend {
+    return {
+        ...backend,
+
+        async increment(key) {
+            if (!trackedKeys.includes(key)) return backend.increment(key);
+
+            const [count] = await Promise.all([
+                backend.increment(key),
+                backend.increment(dayKey(toDayString(new Date()), key)),
+            ]);
+            return count;
+        },
+    };
+}
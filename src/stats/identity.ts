@@ -0,0 +1,92 @@
+/**
+ * Anonymous visitor / session identity.
+ *
+ * Ids are random hex strings generated on the device. They never contain
+ * anything about the person and are only used to avoid counting the same
+ * visitor twice. The visitor id lives in localStorage (survives restarts and
+ * replays), the session id in sessionStorage (one per tab session) and the
+ * play id only in memory (one per page load).
+ * Private browsing modes without storage fall back to in-memory ids.
+ */
+
+const VISITOR_STORAGE_KEY = 'scam-sim-visitor';
+const SESSION_STORAGE_KEY = 'scam-sim-session';
+
+interface StoredVisitor {
+    id: string;
+    /** Milestones this visitor already reached, e.g. `visit`, `victim` */
+    flags: string[];
+}
+
+/** Random 128-bit hex id */
+export function randomId() {
+    // crypto.randomUUID is missing on plain-http LAN hosts, getRandomValues is not
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function safeStorage(kind: 'localStorage' | 'sessionStorage'): Storage | null {
+    try {
+        return window[kind];
+    } catch {
+        return null;
+    }
+}
+
+let memoryVisitor: StoredVisitor | null = null;
+let memorySessionId: string | null = null;
+
+// A new play starts with every page load, including restarts via location.reload()
+const playId = randomId();
+
+function loadVisitor(): StoredVisitor {
+    const storage = safeStorage('localStorage');
+    if (storage) {
+        try {
+            const stored = JSON.parse(storage.getItem(VISITOR_STORAGE_KEY) || 'null');
+            if (stored?.id) return { id: stored.id, flags: stored.flags ?? [] };
+        } catch {
+            // Corrupt entry, start over below
+        }
+    }
+    return memoryVisitor ?? { id: randomId(), flags: [] };
+}
+
+function saveVisitor(visitor: StoredVisitor) {
+    memoryVisitor = visitor;
+    safeStorage('localStorage')?.setItem(VISITOR_STORAGE_KEY, JSON.stringify(visitor));
+}
+
+/** Anonymous id of this browser, stable across plays */
+export function getVisitorId() {
+    const visitor = loadVisitor();
+    saveVisitor(visitor);
+    return visitor.id;
+}
+
+/** Anonymous id of the current tab session (survives `location.reload()`) */
+export function getSessionId() {
+    const storage = safeStorage('sessionStorage');
+    const existing = storage?.getItem(SESSION_STORAGE_KEY) ?? memorySessionId;
+    const id = existing || randomId();
+    memorySessionId = id;
+    storage?.setItem(SESSION_STORAGE_KEY, id);
+    return id;
+}
+
+/** Anonymous id of the current play (one page load of the experience) */
+export function getPlayId() {
+    return playId;
+}
+
+/**
+ * Marks a milestone for this visitor.
+ * Returns true only the first time the milestone is reached on this device,
+ * which is what the unique counters are based on.
+ */
+export function claimFirst(flag: string) {
+    const visitor = loadVisitor();
+    if (visitor.flags.includes(flag)) return false;
+    saveVisitor({ ...visitor, flags: [...visitor.flags, flag] });
+    return true;
+}
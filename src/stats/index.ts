@@ -0,0 +1,34 @@
+export type { StatsBackend, StatsBackendKind, StatsConfig } from './types';
+export { createStatsBackend, readStatsConfig, baseBackend, statsBackend, cohortOnlyBackend, currentCohort } from './backend';
+export { readCohort, cohortKey, slugifyCohort, type Cohort } from './cohort';
+export {
+    STAT_KEYS,
+    FUNNEL_STAGES,
+    FUNNEL_STAGE_LABELS,
+    FUNNEL_OUTCOMES,
+    FUNNEL_OUTCOME_LABELS,
+    HUNT_KEYS,
+    RED_FLAG_LABELS,
+    QUIZ_QUESTION_LABELS,
+    ASSESSMENT_KEYS,
+    ASSESSMENT_ITEM_LABELS,
+    stageKey,
+    outcomeKey,
+    huntFlagKey,
+    quizAnswerKey,
+    assessmentKey,
+    type FunnelStage,
+    type FunnelOutcome,
+    type AssessmentPhase,
+} from './keys';
+export {
+    trackStage,
+    trackOutcome,
+    trackHunt,
+    trackQuizAnswer,
+    trackAssessmentStarted,
+    trackAssessment,
+} from './tracker';
+export { getVisitorId, getSessionId, getPlayId, claimFirst } from './identity';
+export { dayKey, lastDays, toDayString } from './daily';
+export { loadReport, discoverCohorts, reportToCsv, type StatsReport, type ScopeStats, type FunnelRow, type OutcomeRow, type HuntStats, type QuizRow, type AssessmentStats } from './report';
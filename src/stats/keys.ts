@@ -0,0 +1,151 @@
+import type { RedFlagId } from '../content/redFlags';
+import type { QuizQuestionId } from '../content/quiz';
+import type { AssessmentItemId } from '../content/assessment';
+
+/**
+ * Headline counters shown in the Overlay and reports.
+ * `visits` / `victims` keep their original key names so existing data stays valid;
+ * they count every play, the `unique-*` counters count each device once.
+ */
+export const STAT_KEYS = {
+    plays: 'visits',
+    victimPlays: 'victims',
+    visitors: 'unique-visitors',
+    victims: 'unique-victims',
+} as const;
+
+/**
+ * Every step of the experience, in the order a participant normally reaches them.
+ * The order is used to compute drop-off between consecutive stages.
+ */
+export const FUNNEL_STAGES = [
+    'splash_start',
+    'spin_finished',
+    'glitch',
+    'panic',
+    'countdown',
+    'sleigh_drop',
+    'gift_open',
+    'extra_gift_shaken',
+    'truth_clicked',
+    'cinematic_completed',
+    'quiz_completed',
+    'card_downloaded',
+    'sendoff_finished',
+] as const;
+
+export type FunnelStage = typeof FUNNEL_STAGES[number];
+
+/** Human readable names for reports */
+export const FUNNEL_STAGE_LABELS: Record<FunnelStage, string> = {
+    splash_start: 'Clicked "Reveal Prize"',
+    spin_finished: 'Bait landed (spin finished)',
+    glitch: 'Glitch scene',
+    panic: 'Panic scene',
+    countdown: 'Countdown',
+    sleigh_drop: 'Sleigh dropped gift',
+    gift_open: 'Opened gift',
+    extra_gift_shaken: 'Shook an extra gift',
+    truth_clicked: 'Clicked "See The Truth"',
+    cinematic_completed: 'Watched the cinematic',
+    quiz_completed: 'Finished the quiz',
+    card_downloaded: 'Shared or downloaded roast card',
+    sendoff_finished: 'Saw the sendoff',
+};
+
+/** Counter key used to store a stage, e.g. `stage-gift-open` */
+export const stageKey = (stage: FunnelStage) => `stage-${stage.replace(/_/g, '-')}`;
+
+/**
+ * Ways of leaving the funnel early through the "this is a simulation" escape hatch.
+ * Unlike stages they have no order: each is counted on its own.
+ */
+export const FUNNEL_OUTCOMES = [
+    'escaped_splash',
+    'escaped_scene',
+    'aftercare_continued',
+    'aftercare_exited',
+] as const;
+
+export type FunnelOutcome = typeof FUNNEL_OUTCOMES[number];
+
+/** Human readable names for reports */
+export const FUNNEL_OUTCOME_LABELS: Record<FunnelOutcome, string> = {
+    escaped_splash: 'Used the escape hatch during the splash',
+    escaped_scene: 'Used the escape hatch after the splash',
+    aftercare_continued: 'Continued after the aftercare screen',
+    aftercare_exited: 'Exited from the aftercare screen',
+};
+
+/** Counter key used to store an outcome, e.g. `outcome-escaped-splash` */
+export const outcomeKey = (outcome: FunnelOutcome) => `outcome-${outcome.replace(/_/g, '-')}`;
+
+/**
+ * Counters of the red-flag hunt. Each is raised at most once per play:
+ * `completed` per finished hunt, `clean` when it had no wrong taps,
+ * and one counter per flag the player found.
+ */
+export const HUNT_KEYS = {
+    completed: 'hunt-completed',
+    clean: 'hunt-clean',
+} as const;
+
+/** Human readable names of the red flags for reports */
+export const RED_FLAG_LABELS: Record<RedFlagId, string> = {
+    unexpectedPrize: 'Prize never entered for',
+    fakeBadge: '"Secure Verification" badge',
+    personalData: 'Form asking for details',
+    spoofedSender: 'Familiar sender name',
+    lookalikeLink: 'Lookalike link',
+    upfrontFee: 'Fee to pay first',
+    otpRequest: 'OTP request',
+    scamForm: 'Form asking for private details',
+    fakeCrash: '"System failure" on a web page',
+    fakeTerminal: 'Hacker terminal text',
+    countdown: 'Countdown',
+    closeThreat: 'Threat if the page is closed',
+};
+
+/** `fakeBadge` -> `fake-badge`, for ids used inside counter keys */
+const kebab = (id: string) => id.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+/** Counter key of a found flag, e.g. `hunt-found-fake-badge` */
+export const huntFlagKey = (flag: RedFlagId) => `hunt-found-${kebab(flag)}`;
+
+/** Short names of the quiz questions for reports */
+export const QUIZ_QUESTION_LABELS: Record<QuizQuestionId, string> = {
+    urgency: 'Account closes in 10 minutes',
+    fakeBadge: 'Padlock proves a prize is real',
+    otp: 'Who gets the OTP',
+    registrationFee: 'Employer asks for a registration fee',
+    closePage: 'Closing a "do not close" page',
+    reporting: 'After nearly falling for a scam',
+};
+
+/** Counter key of a quiz answer, e.g. `quiz-close-page-correct`. Each question is answered once per play */
+export const quizAnswerKey = (question: QuizQuestionId, correct: boolean) =>
+    `quiz-${kebab(question)}-${correct ? 'correct' : 'wrong'}`;
+
+/**
+ * Counters of the pre/post knowledge check. `started` counts baselines,
+ * `paired` participants who also answered the follow-up; the per-item
+ * counters only include paired participants.
+ */
+export const ASSESSMENT_KEYS = {
+    started: 'assess-started',
+    paired: 'assess-paired',
+} as const;
+
+export type AssessmentPhase = 'pre' | 'post';
+
+/** Short names of the knowledge check items for reports */
+export const ASSESSMENT_ITEM_LABELS: Record<AssessmentItemId, string> = {
+    otpShare: 'Telling the bank an OTP is unsafe',
+    unenteredPrize: 'Prize never entered for is a scam',
+    closePage: 'Closing a page cannot harm the phone',
+    deadlines: 'Scammers rush with deadlines',
+};
+
+/** Counter key of a correct answer, e.g. `assess-post-close-page-correct` */
+export const assessmentKey = (phase: AssessmentPhase, item: AssessmentItemId) =>
+    `assess-${phase}-${kebab(item)}-correct`;
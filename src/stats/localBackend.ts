@@ -0,0 +1,51 @@
+import type { StatsBackend } from './types';
+
+const STORAGE_KEY = 'scam-sim-counters';
+
+/**
+ * Backend that keeps counters on this device only.
+ *
+ * With a `Storage` (usually `localStorage`) the numbers survive reloads,
+ * without one they live in memory for the lifetime of the tab.
+ * Useful for development, demos and fully offline kiosks.
+ */
+export function createLocalBackend(storage: Storage | null): StatsBackend {
+    const memory: Record<string, number> = {};
+
+    const load = (): Record<string, number> => {
+        if (!storage) return memory;
+        try {
+            return JSON.parse(storage.getItem(STORAGE_KEY) || '{}');
+        } catch {
+            return {};
+        }
+    };
+
+    const save = (counts: Record<string, number>) => {
+        storage?.setItem(STORAGE_KEY, JSON.stringify(counts));
+    };
+
+    return {
+        name: storage ? 'local' : 'memory',
+
+        async increment(key) {
+            const counts = load();
+            counts[key] = (counts[key] ?? 0) + 1;
+            save(counts);
+            return counts[key];
+        },
+
+        async read(key) {
+            return load()[key] ?? null;
+        },
+
+        async readMany(keys) {
+            const counts = load();
+            return Object.fromEntries(keys.map(key => [key, counts[key] ?? 0]));
+        },
+
+        async list(prefix) {
+            return Object.fromEntries(Object.entries(load()).filter(([key]) => key.startsWith(prefix)));
+        },
+    };
+}
@@ -0,0 +1,164 @@
+import type { StatsBackend, QueuedIncrement } from './types';
+import { randomId, getPlayId } from './identity';
+
+const STORAGE_KEY = 'scam-sim-stats-queue';
+/** Web Lock held while a tab delivers, so two open tabs never send the same increments */
+const LOCK_NAME = 'scam-sim-stats-delivery';
+/** Increments sent per request */
+const MAX_BATCH = 50;
+/** Oldest increments are dropped beyond this, so storage can never fill up */
+const MAX_QUEUE = 500;
+/** Short delay so increments fired together leave in one batch */
+const BATCH_DELAY_MS = 300;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+/**
+ * Wraps a remote backend with a persistent outbound queue.
+ *
+ * Every increment is stored (localStorage when available) before it is sent,
+ * so patchy mobile data or a reload never loses a data point. Increments are
+ * batched, failed batches are retried with exponential backoff, and whatever
+ * is left is sent on the next page load or when the browser comes back online.
+ *
+ * Each increment carries a random id. Backends with `incrementBatch` use it to
+ * ignore duplicates; for the others an increment is removed from the queue as
+ * soon as its own request succeeds.
+ *
+ * Open tabs share the stored queue: every change re-reads it first, so no tab
+ * overwrites another's increments, and delivery holds a Web Lock (where the
+ * browser has them) so only one tab sends at a time.
+ *
+ * `increment` resolves with the new count once delivered, or with null when
+ * delivery failed for now (the increment stays queued).
+ */
+export function createQueuedBackend(backend: StatsBackend, storage: Storage | null): StatsBackend {
+    /** Storage shared with other tabs; dropped if writing to it fails, the queue then lives in this tab only */
+    let shared = storage;
+
+    const load = (): QueuedIncrement[] => {
+        try {
+            return JSON.parse(shared?.getItem(STORAGE_KEY) || '[]');
+        } catch {
+            return [];
+        }
+    };
+
+    /** This tab's copy, the whole queue when there is no storage */
+    let queue = load();
+    const waiters = new Map<string, (count: number | null) => void>();
+    let flushing = false;
+    let failures = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (id: string, count: number | null) => {
+        waiters.get(id)?.(count);
+        waiters.delete(id);
+    };
+
+    /**
+     * Applies `change` to the latest stored queue (another tab may have changed it)
+     * and stores the result. Increments pushed out by MAX_QUEUE are given up.
+     */
+    const update = (change: (items: QueuedIncrement[]) => QueuedIncrement[]) => {
+        const changed = change(shared ? load() : queue);
+        const dropped = changed.slice(0, -MAX_QUEUE);
+        queue = changed.slice(-MAX_QUEUE);
+        try {
+            shared?.setItem(STORAGE_KEY, JSON.stringify(queue));
+        } catch (e) {
+            console.warn('Could not persist stats queue, keeping it in memory', e);
+            shared = null;
+        }
+        dropped.forEach(item => settle(item.id, null));
+    };
+
+    const remove = (ids: string[]) => update(items => items.filter(item => !ids.includes(item.id)));
+
+    /** Runs `task` holding the delivery lock, or right away where Web Locks are missing */
+    const withLock = (task: () => Promise<void>) =>
+        navigator.locks ? navigator.locks.request(LOCK_NAME, task) : task();
+
+    const schedule = (delay: number) => {
+        clearTimeout(timer);
+        timer = setTimeout(flush, delay);
+    };
+
+    /**
+     * Delivers one batch. Throws when the backend could not be reached;
+     * whatever was delivered before the error is already removed from the queue.
+     */
+    const deliver = async (batch: QueuedIncrement[]) => {
+        if (backend.incrementBatch) {
+            const counts = await backend.incrementBatch(batch);
+            remove(batch.map(item => item.id));
+            batch.forEach(item => settle(item.id, counts[item.id] ?? null));
+            return;
+        }
+
+        for (const item of batch) {
+            const count = await backend.increment(item.key);
+            remove([item.id]);
+            settle(item.id, count);
+        }
+    };
+
+    async function flush() {
+        if (flushing) return;
+        flushing = true;
+        try {
+            await withLock(deliverNext);
+        } finally {
+            flushing = false;
+        }
+    }
+
+    async function deliverNext() {
+        // Another tab may have delivered (or queued) increments in the meantime
+        if (shared) queue = load();
+        waiters.forEach((_, id) => {
+            if (!queue.some(item => item.id === id)) settle(id, null);
+        });
+        if (queue.length === 0) return;
+
+        const batch = queue.slice(0, MAX_BATCH);
+        try {
+            await deliver(batch);
+            failures = 0;
+            if (queue.length > 0) schedule(0);
+        } catch (e) {
+            failures++;
+            // Full jitter keeps a room full of phones from retrying in lockstep
+            const backoff = Math.min(RETRY_BASE_MS * 2 ** (failures - 1), RETRY_MAX_MS);
+            const delay = backoff / 2 + Math.random() * backoff / 2;
+            console.warn(`Stats delivery failed, retrying in ${Math.round(delay / 1000)}s`, e);
+
+            // Let callers continue, the increments stay queued for the retry
+            batch.forEach(item => settle(item.id, null));
+            schedule(delay);
+        }
+    }
+
+    // Send leftovers from earlier visits, and retry right away when the network returns
+    if (queue.length > 0) schedule(BATCH_DELAY_MS);
+    window.addEventListener('online', () => {
+        failures = 0;
+        schedule(0);
+    });
+
+    return {
+        ...backend,
+
+        increment(key) {
+            const item = { id: randomId(), key, playId: getPlayId() };
+            update(items => [...items, item]);
+
+            // While offline a retry is already scheduled, don't keep the caller waiting for it
+            if (failures > 0) return Promise.resolve(null);
+
+            const delivered = new Promise<number | null>(resolve => waiters.set(item.id, resolve));
+            schedule(BATCH_DELAY_MS);
+            return delivered;
+        },
+    };
+}
@@ -0,0 +1,274 @@
+import type { StatsBackend } from './types';
+import {
+    STAT_KEYS,
+    FUNNEL_STAGES,
+    FUNNEL_STAGE_LABELS,
+    FUNNEL_OUTCOMES,
+    FUNNEL_OUTCOME_LABELS,
+    HUNT_KEYS,
+    RED_FLAG_LABELS,
+    QUIZ_QUESTION_LABELS,
+    ASSESSMENT_KEYS,
+    ASSESSMENT_ITEM_LABELS,
+    stageKey,
+    outcomeKey,
+    huntFlagKey,
+    quizAnswerKey,
+    assessmentKey,
+    type FunnelStage,
+    type FunnelOutcome,
+} from './keys';
+import { cohortKey } from './cohort';
+import { dayKey, lastDays } from './daily';
+import { RED_FLAGS, type RedFlagId } from '../content/redFlags';
+import { QUIZ, type QuizQuestionId } from '../content/quiz';
+import { ASSESSMENT, type AssessmentItemId } from '../content/assessment';
+
+type HeadlineMetric = keyof typeof STAT_KEYS;
+
+export interface DailyStats {
+    /** `YYYY-MM-DD` */
+    date: string;
+    totals: Record<HeadlineMetric, number>;
+}
+
+export interface FunnelRow {
+    stage: FunnelStage;
+    label: string;
+    count: number;
+    /** Share of the first stage that reached this one (0-1) */
+    ofStart: number;
+    /** Share of the previous stage lost before this one (0-1) */
+    dropOff: number;
+}
+
+export interface OutcomeRow {
+    outcome: FunnelOutcome;
+    label: string;
+    count: number;
+    /** Share of the first funnel stage that ended this way (0-1) */
+    ofStart: number;
+}
+
+/** Results of the red-flag hunt */
+export interface HuntStats {
+    completed: number;
+    /** Share of hunts without a wrong tap (0-1) */
+    clean: number;
+    /** Flags found per hunt, on average */
+    averageFound: number;
+    flags: { flag: RedFlagId; label: string; found: number; /** Share of hunts that found it (0-1) */ ofCompleted: number }[];
+}
+
+export interface QuizRow {
+    question: QuizQuestionId;
+    label: string;
+    correct: number;
+    answered: number;
+    /** Share of answers that were correct (0-1) */
+    correctRate: number;
+}
+
+/** Pre/post knowledge check, over the participants who answered both */
+export interface AssessmentStats {
+    started: number;
+    paired: number;
+    /** Share of correct answers before the experience (0-1) */
+    before: number;
+    /** Share of correct answers after it (0-1) */
+    after: number;
+    /** `after - before`: the learning gain, in share of items */
+    gain: number;
+    items: { item: AssessmentItemId; label: string; before: number; after: number }[];
+}
+
+/** Numbers for the whole audience or for one cohort */
+export interface ScopeStats {
+    /** `all` or the cohort id */
+    scope: string;
+    label: string;
+    totals: Record<HeadlineMetric, number>;
+    /** Unique victims / unique visitors (0-1) */
+    clickThroughRate: number;
+    funnel: FunnelRow[];
+    outcomes: OutcomeRow[];
+    hunt: HuntStats;
+    quiz: QuizRow[];
+    assessment: AssessmentStats;
+    daily: DailyStats[];
+}
+
+export interface StatsReport {
+    generatedAt: string;
+    backend: string;
+    overall: ScopeStats;
+    cohorts: ScopeStats[];
+}
+
+const HEADLINE_METRICS = Object.keys(STAT_KEYS) as HeadlineMetric[];
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+/**
+ * Reads every number of one scope in a single batch.
+ * `scopeKey` maps a plain counter key to the scope's key (identity for `all`).
+ */
+async function loadScope(
+    backend: StatsBackend,
+    scope: string,
+    label: string,
+    scopeKey: (key: string) => string,
+    days: string[],
+): Promise<ScopeStats> {
+    const headlineKeys = HEADLINE_METRICS.map(metric => scopeKey(STAT_KEYS[metric]));
+    const stageKeys = FUNNEL_STAGES.map(stage => scopeKey(stageKey(stage)));
+    const outcomeKeys = FUNNEL_OUTCOMES.map(outcome => scopeKey(outcomeKey(outcome)));
+    const huntKeys = [HUNT_KEYS.completed, HUNT_KEYS.clean, ...RED_FLAGS.map(huntFlagKey)].map(scopeKey);
+    const quizKeys = QUIZ.flatMap(({ id }) => [quizAnswerKey(id, true), quizAnswerKey(id, false)]).map(scopeKey);
+    const assessmentKeys = [
+        ASSESSMENT_KEYS.started,
+        ASSESSMENT_KEYS.paired,
+        ...ASSESSMENT.flatMap(({ id }) => [assessmentKey('pre', id), assessmentKey('post', id)]),
+    ].map(scopeKey);
+    const dailyKeys = days.flatMap(day => HEADLINE_METRICS.map(metric => scopeKey(dayKey(day, STAT_KEYS[metric]))));
+
+    const counts = await backend.readMany([...headlineKeys, ...stageKeys, ...outcomeKeys, ...huntKeys, ...quizKeys, ...assessmentKeys, ...dailyKeys]);
+
+    const totals = Object.fromEntries(
+        HEADLINE_METRICS.map(metric => [metric, counts[scopeKey(STAT_KEYS[metric])] ?? 0]),
+    ) as Record<HeadlineMetric, number>;
+
+    const stageCounts = FUNNEL_STAGES.map(stage => counts[scopeKey(stageKey(stage))] ?? 0);
+    const funnel = FUNNEL_STAGES.map((stage, i) => ({
+        stage,
+        label: FUNNEL_STAGE_LABELS[stage],
+        count: stageCounts[i],
+        ofStart: ratio(stageCounts[i], stageCounts[0]),
+        dropOff: i === 0 ? 0 : 1 - ratio(stageCounts[i], stageCounts[i - 1]),
+    }));
+
+    const outcomes = FUNNEL_OUTCOMES.map(outcome => {
+        const count = counts[scopeKey(outcomeKey(outcome))] ?? 0;
+        return { outcome, label: FUNNEL_OUTCOME_LABELS[outcome], count, ofStart: ratio(count, stageCounts[0]) };
+    });
+
+    const huntCompleted = counts[scopeKey(HUNT_KEYS.completed)] ?? 0;
+    const huntFlags = RED_FLAGS.map(flag => {
+        const found = counts[scopeKey(huntFlagKey(flag))] ?? 0;
+        return { flag, label: RED_FLAG_LABELS[flag], found, ofCompleted: ratio(found, huntCompleted) };
+    });
+    const hunt = {
+        completed: huntCompleted,
+        clean: ratio(counts[scopeKey(HUNT_KEYS.clean)] ?? 0, huntCompleted),
+        averageFound: ratio(huntFlags.reduce((sum, row) => sum + row.found, 0), huntCompleted),
+        flags: huntFlags,
+    };
+
+    const quiz = QUIZ.map(({ id }) => {
+        const correct = counts[scopeKey(quizAnswerKey(id, true))] ?? 0;
+        const answered = correct + (counts[scopeKey(quizAnswerKey(id, false))] ?? 0);
+        return { question: id, label: QUIZ_QUESTION_LABELS[id], correct, answered, correctRate: ratio(correct, answered) };
+    });
+
+    const paired = counts[scopeKey(ASSESSMENT_KEYS.paired)] ?? 0;
+    const assessmentItems = ASSESSMENT.map(({ id }) => ({
+        item: id,
+        label: ASSESSMENT_ITEM_LABELS[id],
+        before: ratio(counts[scopeKey(assessmentKey('pre', id))] ?? 0, paired),
+        after: ratio(counts[scopeKey(assessmentKey('post', id))] ?? 0, paired),
+    }));
+    const mean = (values: number[]) => ratio(values.reduce((sum, value) => sum + value, 0), values.length);
+    const before = mean(assessmentItems.map(row => row.before));
+    const after = mean(assessmentItems.map(row => row.after));
+    const assessment = {
+        started: counts[scopeKey(ASSESSMENT_KEYS.started)] ?? 0,
+        paired,
+        before,
+        after,
+        gain: after - before,
+        items: assessmentItems,
+    };
+
+    const daily = days.map(date => ({
+        date,
+        totals: Object.fromEntries(
+            HEADLINE_METRICS.map(metric => [metric, counts[scopeKey(dayKey(date, STAT_KEYS[metric]))] ?? 0]),
+        ) as Record<HeadlineMetric, number>,
+    }));
+
+    return {
+        scope,
+        label,
+        totals,
+        clickThroughRate: ratio(totals.victims, totals.visitors),
+        funnel,
+        outcomes,
+        hunt,
+        quiz,
+        assessment,
+        daily,
+    };
+}
+
+/**
+ * Finds cohorts that have data, for backends that can list their keys.
+ * Returns an empty list for backends that cannot (e.g. counterapi).
+ */
+export async function discoverCohorts(backend: StatsBackend): Promise<string[]> {
+    if (!backend.list) return [];
+    const counts = await backend.list('cohort-');
+    const ids = Object.keys(counts).map(key => key.slice('cohort-'.length).split('--')[0]);
+    return [...new Set(ids)].sort();
+}
+
+/**
+ * Builds the full dashboard report: overall numbers plus one entry per cohort.
+ * Reads from the unscoped backend, cohorts are addressed by their id.
+ */
+export async function loadReport(backend: StatsBackend, cohortIds: string[], dayCount = 14): Promise<StatsReport> {
+    const days = lastDays(dayCount);
+
+    const [overall, ...cohorts] = await Promise.all([
+        loadScope(backend, 'all', 'All participants', key => key, days),
+        ...cohortIds.map(id => loadScope(backend, id, id, key => cohortKey(id, key), days)),
+    ]);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        backend: backend.name,
+        overall,
+        cohorts,
+    };
+}
+
+/**
+ * Flattens a report into CSV (long format: one number per row),
+ * which spreadsheets can pivot any way the facilitator needs.
+ */
+export function reportToCsv(report: StatsReport) {
+    const rows = [['scope', 'date', 'metric', 'value']];
+
+    for (const scope of [report.overall, ...report.cohorts]) {
+        HEADLINE_METRICS.forEach(metric => rows.push([scope.scope, '', metric, String(scope.totals[metric])]));
+        rows.push([scope.scope, '', 'clickThroughRate', scope.clickThroughRate.toFixed(4)]);
+        scope.funnel.forEach(row => rows.push([scope.scope, '', `stage:${row.stage}`, String(row.count)]));
+        scope.outcomes.forEach(row => rows.push([scope.scope, '', `outcome:${row.outcome}`, String(row.count)]));
+        rows.push([scope.scope, '', 'hunt:completed', String(scope.hunt.completed)]);
+        rows.push([scope.scope, '', 'hunt:clean', scope.hunt.clean.toFixed(4)]);
+        scope.hunt.flags.forEach(row => rows.push([scope.scope, '', `hunt-found:${row.flag}`, String(row.found)]));
+        rows.push([scope.scope, '', 'assessment:paired', String(scope.assessment.paired)]);
+        rows.push([scope.scope, '', 'assessment:before', scope.assessment.before.toFixed(4)]);
+        rows.push([scope.scope, '', 'assessment:after', scope.assessment.after.toFixed(4)]);
+        rows.push([scope.scope, '', 'assessment:gain', scope.assessment.gain.toFixed(4)]);
+        scope.quiz.forEach(row => {
+            rows.push([scope.scope, '', `quiz-correct:${row.question}`, String(row.correct)]);
+            rows.push([scope.scope, '', `quiz-answered:${row.question}`, String(row.answered)]);
+        });
+        scope.daily.forEach(day =>
+            HEADLINE_METRICS.forEach(metric => rows.push([scope.scope, day.date, metric, String(day.totals[metric])])),
+        );
+    }
+
+    // Cohort ids are slugs, but quote everything anyway so the file stays valid
+    return rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
@@ -0,0 +1,117 @@
+import type { StatsBackend, QueuedIncrement } from './types';
+import { getPlayId } from './identity';
+
+/** Play id issued by the counter server, with the token that proves it */
+interface ServerPlay {
+    play: string;
+    token: string;
+}
+
+/**
+ * Backend for the self-hosted counter server in `server/counter-server.js`.
+ *
+ * Works on a LAN without internet access. `baseUrl` points at the server's
+ * API root, e.g. `http://192.168.1.20:8787/api` or just `/api` when the
+ * server also hosts the built app.
+ *
+ * The server only accepts increments from plays it issued itself (see
+ * `server/guard.js`): each local play asks once for a server play id and its
+ * token, which are cached for the page. Queued increments of earlier page loads
+ * get a fresh server play; their ids still keep the server from counting them twice.
+ *
+ * The server answers 429 when a rate limit holds increments back. They are not
+ * counted yet, so both increment calls throw and the queue retries them later.
+ */
+export function createServerBackend(baseUrl: string): StatsBackend {
+    const plays = new Map<string, Promise<ServerPlay>>();
+
+    const getPlay = (playId: string) => {
+        let play = plays.get(playId);
+        if (!play) {
+            play = fetch(`${baseUrl}/plays`, { method: 'POST' }).then(async res => {
+                if (!res.ok) throw new Error(`Counter server refused a play (${res.status})`);
+                return res.json();
+            });
+            // Forget failed requests so the next retry asks again
+            play.catch(() => plays.delete(playId));
+            plays.set(playId, play);
+        }
+        return play;
+    };
+
+    return {
+        name: 'server',
+
+        async increment(key) {
+            const { play, token } = await getPlay(getPlayId());
+            const res = await fetch(`${baseUrl}/counters/${key}/up`, {
+                method: 'POST',
+                headers: { 'X-Play-Id': play, 'X-Play-Token': token },
+                keepalive: true,
+            });
+            if (res.status === 429) throw new Error('Counter server is busy, retry later');
+            const data = await res.json();
+            return typeof data.count === 'number' ? data.count : null;
+        },
+
+        async incrementBatch(increments) {
+            // Queued increments may come from earlier plays, each play gets its own server play
+            const byPlay = new Map<string, QueuedIncrement[]>();
+            increments.forEach(item => byPlay.set(item.playId, [...(byPlay.get(item.playId) ?? []), item]));
+
+            const counts: Record<string, number> = {};
+            for (const [playId, items] of byPlay) {
+                const { play, token } = await getPlay(playId);
+                const res = await fetch(`${baseUrl}/increments`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        play,
+                        token,
+                        increments: items.map(({ id, key }) => ({ id, key })),
+                    }),
+                    keepalive: true,
+                });
+                if (!res.ok) throw new Error(`Counter server answered ${res.status}`);
+                const data = await res.json();
+                Object.assign(counts, data.counts);
+            }
+            return counts;
+        },
+
+        async read(key) {
+            const res = await fetch(`${baseUrl}/counters/${key}`);
+            if (!res.ok) return null;
+            const data = await res.json();
+            return typeof data.count === 'number' ? data.count : null;
+        },
+
+        async readMany(keys) {
+            // In the body: a dashboard report reads far more keys than fit a query string
+            const res = await fetch(`${baseUrl}/counters`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ keys }),
+            });
+            if (!res.ok) throw new Error(`Counter server answered ${res.status}`);
+            const data = await res.json();
+            return Object.fromEntries(keys.map(key => [key, data.counts?.[key] ?? 0]));
+        },
+
+        async list(prefix) {
+            const res = await fetch(`${baseUrl}/counters?prefix=${encodeURIComponent(prefix)}`);
+            const data = await res.json();
+            return data.counts ?? {};
+        },
+
+        subscribe(keys, onChange) {
+            // EventSource reconnects on its own when the LAN drops for a moment
+            const source = new EventSource(`${baseUrl}/events?keys=${keys.map(encodeURIComponent).join(',')}`);
+            source.onmessage = (event) => {
+                const data = JSON.parse(event.data);
+                if (typeof data.count === 'number') onChange(data.key, data.count);
+            };
+            return () => source.close();
+        },
+    };
+}
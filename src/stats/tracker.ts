@@ -0,0 +1,98 @@
+import { statsBackend } from './backend';
+import {
+    stageKey,
+    outcomeKey,
+    huntFlagKey,
+    quizAnswerKey,
+    assessmentKey,
+    HUNT_KEYS,
+    ASSESSMENT_KEYS,
+    type FunnelStage,
+    type FunnelOutcome,
+} from './keys';
+import type { RedFlagId } from '../content/redFlags';
+import type { QuizQuestionId } from '../content/quiz';
+import type { AssessmentItemId } from '../content/assessment';
+
+// Stages and outcomes already recorded during this play, so re-renders never count twice
+const reachedStages = new Set<FunnelStage>();
+const reachedOutcomes = new Set<FunnelOutcome>();
+const answeredQuestions = new Set<QuizQuestionId>();
+let huntReported = false;
+let assessmentStarted = false;
+let assessmentReported = false;
+
+/**
+ * Records that the participant reached a funnel stage.
+ * Each stage is counted at most once per page load. Failures are logged and
+ * never interrupt the experience.
+ */
+export function trackStage(stage: FunnelStage) {
+    if (reachedStages.has(stage)) return;
+    reachedStages.add(stage);
+
+    statsBackend.increment(stageKey(stage))
+        .catch(e => console.error(`Failed to track stage "${stage}"`, e));
+}
+
+/**
+ * Records an early exit (see FUNNEL_OUTCOMES), at most once per page load.
+ */
+export function trackOutcome(outcome: FunnelOutcome) {
+    if (reachedOutcomes.has(outcome)) return;
+    reachedOutcomes.add(outcome);
+
+    statsBackend.increment(outcomeKey(outcome))
+        .catch(e => console.error(`Failed to track outcome "${outcome}"`, e));
+}
+
+/**
+ * Records the score of a finished red-flag hunt: which flags were found and
+ * whether any tap missed. Only the first hunt of a page load is counted.
+ */
+export function trackHunt(found: RedFlagId[], misses: number) {
+    if (huntReported) return;
+    huntReported = true;
+
+    const keys = [HUNT_KEYS.completed, ...found.map(huntFlagKey), ...(misses === 0 ? [HUNT_KEYS.clean] : [])];
+    keys.forEach(key => statsBackend.increment(key)
+        .catch(e => console.error(`Failed to track hunt counter "${key}"`, e)));
+}
+
+/**
+ * Records whether a quiz question was answered correctly.
+ * Only the first answer to each question in a page load is counted.
+ */
+export function trackQuizAnswer(question: QuizQuestionId, correct: boolean) {
+    if (answeredQuestions.has(question)) return;
+    answeredQuestions.add(question);
+
+    statsBackend.increment(quizAnswerKey(question, correct))
+        .catch(e => console.error(`Failed to track quiz answer "${question}"`, e));
+}
+
+/** Records that a participant answered the knowledge check baseline */
+export function trackAssessmentStarted() {
+    if (assessmentStarted) return;
+    assessmentStarted = true;
+
+    statsBackend.increment(ASSESSMENT_KEYS.started)
+        .catch(e => console.error('Failed to track the assessment baseline', e));
+}
+
+/**
+ * Records a finished pre/post pair: the items answered correctly before the
+ * experience and after it. Only the first pair of a page load is counted.
+ */
+export function trackAssessment(pre: AssessmentItemId[], post: AssessmentItemId[]) {
+    if (assessmentReported) return;
+    assessmentReported = true;
+
+    const keys = [
+        ASSESSMENT_KEYS.paired,
+        ...pre.map(item => assessmentKey('pre', item)),
+        ...post.map(item => assessmentKey('post', item)),
+    ];
+    keys.forEach(key => statsBackend.increment(key)
+        .catch(e => console.error(`Failed to track assessment counter "${key}"`, e)));
+}
@@ -0,0 +1,52 @@
+/**
+ * Contract every statistics store has to fulfil.
+ *
+ * Counters are identified by plain string keys (`visits`, `victims`, ...).
+ * Keys only use letters, digits, `-` and `_` so they can be placed in a URL
+ * path as-is for any backend.
+ */
+export interface StatsBackend {
+    /** Short identifier of the implementation, used in logs */
+    readonly name: string;
+    /** Adds one to the counter and resolves with the new value (null if unknown) */
+    increment(key: string): Promise<number | null>;
+    /**
+     * Applies several increments in one request.
+     * Optional: backends that implement it ignore event ids they already applied,
+     * so a retried batch never counts twice. Resolves with the new count per event id.
+     */
+    incrementBatch?(increments: QueuedIncrement[]): Promise<Record<string, number>>;
+    /** Reads a single counter. Resolves with null when the counter does not exist yet */
+    read(key: string): Promise<number | null>;
+    /** Reads several counters at once. Missing counters are reported as 0 */
+    readMany(keys: string[]): Promise<Record<string, number>>;
+    /**
+     * Lists every counter whose key starts with `prefix`.
+     * Optional: only backends that can enumerate their keys implement it.
+     */
+    list?(prefix: string): Promise<Record<string, number>>;
+    /**
+     * Pushes new values of `keys` as soon as anyone changes them.
+     * Optional: backends without push support are polled instead.
+     * Returns a function that ends the subscription.
+     */
+    subscribe?(keys: string[], onChange: (key: string, count: number) => void): () => void;
+}
+
+/** One pending counter increment, identified so retries can be recognised */
+export interface QueuedIncrement {
+    /** Random id, unique per increment */
+    id: string;
+    key: string;
+    /** Play the increment belongs to, so it can still be authorised after a reload */
+    playId: string;
+}
+
+/** Which backend implementation the app should talk to */
+export type StatsBackendKind = 'counterapi' | 'server' | 'local' | 'memory';
+
+export interface StatsConfig {
+    kind: StatsBackendKind;
+    /** Base URL of the remote store (counterapi or the bundled counter server) */
+    url: string;
+}
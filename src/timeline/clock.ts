@@ -0,0 +1,66 @@
+/**
+ * Time source that drives a timeline.
+ * Splitting it out lets the same timeline run on real animation frames in the
+ * browser and on a manually advanced clock in tests or tooling.
+ */
+export interface Clock {
+    /** Current time in milliseconds */
+    now(): number;
+    /** Calls `callback` on the next frame. Returns a function that cancels it */
+    requestFrame(callback: () => void): () => void;
+}
+
+/**
+ * Real clock: `performance.now()` and `requestAnimationFrame`.
+ * Browsers stop animation frames in hidden tabs, so a timeline on this clock
+ * never races ahead in the background.
+ */
+export function createAnimationFrameClock(): Clock {
+    return {
+        now: () => performance.now(),
+        requestFrame(callback) {
+            const id = requestAnimationFrame(callback);
+            return () => cancelAnimationFrame(id);
+        },
+    };
+}
+
+export interface VirtualClock extends Clock {
+    /** Moves time forward by `ms`, running pending frames every `frameMs` */
+    advance(ms: number, frameMs?: number): void;
+}
+
+/**
+ * Deterministic clock that only moves when `advance` is called.
+ * Frames run synchronously inside `advance`, so cue order and timing can be
+ * checked without waiting for real time.
+ */
+export function createVirtualClock(start = 0): VirtualClock {
+    let time = start;
+    let pending: (() => void)[] = [];
+
+    const runFrame = () => {
+        const callbacks = pending;
+        pending = [];
+        callbacks.forEach(callback => callback());
+    };
+
+    return {
+        now: () => time,
+
+        requestFrame(callback) {
+            pending.push(callback);
+            return () => {
+                pending = pending.filter(c => c !== callback);
+            };
+        },
+
+        advance(ms, frameMs = 16) {
+            const end = time + ms;
+            while (time < end) {
+                time = Math.min(time + frameMs, end);
+                runFrame();
+            }
+        },
+    };
+}
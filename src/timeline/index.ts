@@ -0,0 +1,2 @@
+export { createTimeline, type Cue, type Timeline, type TimelineOptions } from './timeline';
+export { createAnimationFrameClock, createVirtualClock, type Clock, type VirtualClock } from './clock';
@@ -0,0 +1,171 @@
+import { createAnimationFrameClock, type Clock } from './clock';
+
+/** Anything that happens at a point in time. Times are in seconds */
+export interface Cue {
+    at: number;
+}
+
+export interface TimelineOptions<C extends Cue> {
+    /** Cues in any order */
+    cues: C[];
+    /** Length in seconds, playback stops here */
+    duration: number;
+    /** Time source, defaults to animation frames */
+    clock?: Clock;
+    /** Called when playback reaches a cue. Cues jumped over by `seek` are not fired, a cue right at the seek target is */
+    onCue?: (cue: C) => void;
+    /** Called once playback reaches `duration` */
+    onEnd?: () => void;
+}
+
+export interface Timeline<C extends Cue> {
+    /** Current position in seconds */
+    readonly time: number;
+    readonly playing: boolean;
+    /** Playback speed, 1 = real time */
+    readonly rate: number;
+    readonly duration: number;
+    readonly cues: readonly C[];
+    play(): void;
+    pause(): void;
+    /** Jumps to `time` without firing the cues before it; cues at `time` fire once playback continues */
+    seek(time: number): void;
+    setRate(rate: number): void;
+    /** Registers a listener for every change (frames, cues, play state). Returns an unsubscribe function */
+    subscribe(listener: () => void): () => void;
+    /** Stops the clock and drops all listeners */
+    destroy(): void;
+}
+
+/**
+ * Creates a pausable, seekable timeline over a list of cues.
+ *
+ * Cues fire when playback moves past them, in time order. A cue at the very
+ * start fires synchronously inside `play()`, so cues that need a user gesture
+ * (e.g. starting audio) still get one. Playing at the end (after seeking there
+ * while paused) ends the timeline, and playing once it has ended starts over.
+ */
+export function createTimeline<C extends Cue>({
+    cues,
+    duration,
+    clock = createAnimationFrameClock(),
+    onCue,
+    onEnd,
+}: TimelineOptions<C>): Timeline<C> {
+    const sorted = [...cues].sort((a, b) => a.at - b.at);
+    const listeners = new Set<() => void>();
+
+    let time = 0;
+    let rate = 1;
+    let playing = false;
+    let ended = false;
+    let lastFrame = 0;
+    // Cues after this time (exclusive) have not fired yet; -1 so cues at 0 fire on the first play
+    let firedUntil = -1;
+    let cancelFrame: (() => void) | null = null;
+
+    const notify = () => listeners.forEach(listener => listener());
+
+    const fireUpTo = (until: number) => {
+        for (const cue of sorted) {
+            if (cue.at > firedUntil && cue.at <= until) onCue?.(cue);
+        }
+        firedUntil = until;
+    };
+
+    const finish = () => {
+        playing = false;
+        cancelFrame = null;
+        notify();
+        if (!ended) {
+            ended = true;
+            onEnd?.();
+        }
+    };
+
+    const frame = () => {
+        const now = clock.now();
+        time = Math.min(duration, time + ((now - lastFrame) / 1000) * rate);
+        lastFrame = now;
+        fireUpTo(time);
+
+        if (time >= duration) {
+            finish();
+            return;
+        }
+
+        notify();
+        cancelFrame = clock.requestFrame(frame);
+    };
+
+    return {
+        get time() { return time; },
+        get playing() { return playing; },
+        get rate() { return rate; },
+        get duration() { return duration; },
+        cues: sorted,
+
+        play() {
+            if (playing) return;
+            if (time >= duration) {
+                if (!ended) {
+                    fireUpTo(time);
+                    finish();
+                    return;
+                }
+                time = 0;
+                firedUntil = -1;
+                ended = false;
+            }
+            playing = true;
+            lastFrame = clock.now();
+            fireUpTo(time);
+            notify();
+            cancelFrame = clock.requestFrame(frame);
+        },
+
+        pause() {
+            if (!playing) return;
+            // Account for the time since the last frame before stopping
+            time = Math.min(duration, time + ((clock.now() - lastFrame) / 1000) * rate);
+            playing = false;
+            cancelFrame?.();
+            cancelFrame = null;
+            notify();
+        },
+
+        seek(target) {
+            time = Math.max(0, Math.min(duration, target));
+            lastFrame = clock.now();
+            // Cues from the target on fire again, so jumping to a chapter start plays its opening cues
+            firedUntil = -1;
+            for (const cue of sorted) {
+                if (cue.at >= time) break;
+                firedUntil = cue.at;
+            }
+            ended = time >= duration && ended;
+            notify();
+        },
+
+        setRate(next) {
+            if (playing) {
+                time = Math.min(duration, time + ((clock.now() - lastFrame) / 1000) * rate);
+                lastFrame = clock.now();
+            }
+            rate = next;
+            notify();
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        destroy() {
+            cancelFrame?.();
+            cancelFrame = null;
+            playing = false;
+            listeners.clear();
+        },
+    };
+}
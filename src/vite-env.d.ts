@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Stats backend: `counterapi` (default), `server`, `local` or `memory` */
+    readonly VITE_STATS_BACKEND?: string
+    /** Base URL of the selected remote stats backend */
+    readonly VITE_STATS_URL?: string
+    /** Passcode for the `?admin` dashboard. Without one the dashboard is open */
+    readonly VITE_ADMIN_PASSCODE?: string
+    /** Link printed as a QR code on the shared roast card. Defaults to this page without parameters */
+    readonly VITE_CAMPAIGN_URL?: string
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv
+}
@@ -1,3 +1,16 @@
+import defaultTheme from 'tailwindcss/defaultTheme'
+
+/** Bundled Sinhala / Tamil fonts (src/i18n/fonts.ts), used for glyphs the primary fonts lack */
+const scriptFallbacks = ['"Noto Sans Sinhala"', '"Noto Sans Tamil"']
+
+/**
+ * Puts the bundled font of the page's language first (`--font-script`, set per
+ * `:lang()` in index.css), ahead of any Sinhala or Tamil font the system has,
+ * so those scripts look the same on every device. Other languages keep the
+ * stack's own first family and never download the bundled files.
+ */
+const withScriptFont = ([first, ...rest]) => [`var(--font-script, ${first})`, ...rest, ...scriptFallbacks]
+
 /** @type {import('tailwindcss').Config} */
 export default {
     content: [
@@ -5,7 +18,13 @@ export default {
         "./src/**/*.{js,ts,jsx,tsx}",
     ],
     theme: {
-        extend: {},
+        extend: {
+            fontFamily: {
+                sans: withScriptFont(defaultTheme.fontFamily.sans),
+                serif: withScriptFont(defaultTheme.fontFamily.serif),
+                mono: withScriptFont(defaultTheme.fontFamily.mono),
+            },
+        },
     },
     plugins: [],
 }